@@ -0,0 +1,78 @@
+// Service worker of the installable app: keeps the app shell available offline.
+// Items and resources are cached per profile in IndexedDB by the app itself, and
+// requests to the sync target always go to the network.
+
+// Filled in by the service-worker-manifest plugin of vite.config.ts: an id that
+// changes with every build, and the build's hashed scripts, styles and assets
+const BUILD_ID = "dev";
+const BUILD_URLS = [];
+
+const CACHE_NAME = `joplin-web-shell-${BUILD_ID}`;
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+const FONT_HOSTS = ["fonts.googleapis.com", "fonts.gstatic.com"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll([...SHELL_URLS, ...BUILD_URLS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok || response.type === "opaque") {
+    const copy = response.clone();
+    caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+// Cached copy first, the network for anything not cached yet
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  return cached || putInCache(request, await fetch(request));
+};
+
+// The network first so a new deployment is picked up, the cached shell when offline
+const networkFirst = async (request) => {
+  try {
+    return putInCache(request, await fetch(request));
+  } catch (error) {
+    const cached = (await caches.match(request)) || (await caches.match("/index.html"));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (request.mode === "navigate" && url.origin === self.location.origin) {
+    // The OAuth redirect page must always come from the network
+    if (url.pathname.startsWith("/oauth-callback")) return;
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    // Build assets have hashed names, so a cached copy never goes stale. They are
+    // precached on install; files of older builds are dropped with their cache.
+    event.respondWith(cacheFirst(request));
+  } else if (FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin === self.location.origin && SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  }
+  // Everything else (sync target and proxy requests) goes straight to the network
+});
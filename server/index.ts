@@ -0,0 +1,126 @@
+import http, { type IncomingMessage, type ServerResponse } from "node:http";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { createWebdavProxy, parseAllowlist } from "./webdavProxy.js";
+
+/**
+ * Production server: serves the built app and the WebDAV proxy the Vite dev
+ * server provides during development. Configured through the environment:
+ *
+ * - PORT, HOST: where to listen (8080, all interfaces)
+ * - STATIC_DIR: the `vite build` output (./dist)
+ * - WEBDAV_PROXY_ALLOWLIST: targets the proxy may reach, see parseAllowlist.
+ *   The proxy is disabled when unset.
+ * - PROXY_MAX_REQUEST_MB: largest upload forwarded through the proxy (100)
+ * - PROXY_IGNORE_TLS_ERRORS: accept self-signed certificates on https targets
+ */
+const PORT = Number(process.env.PORT) || 8080;
+const HOST = process.env.HOST || "0.0.0.0";
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR || "dist");
+const MAX_REQUEST_BYTES = (Number(process.env.PROXY_MAX_REQUEST_MB) || 100) * 1024 * 1024;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".webmanifest": "application/manifest+json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon",
+  ".woff2": "font/woff2",
+  ".wasm": "application/wasm",
+};
+
+const allowlist = parseAllowlist(process.env.WEBDAV_PROXY_ALLOWLIST || "");
+if (allowlist.length === 0) {
+  console.warn("[server] WEBDAV_PROXY_ALLOWLIST is not set, the WebDAV proxy rejects every target");
+}
+
+const proxy = createWebdavProxy({
+  allowlist,
+  ignoreTlsErrors: process.env.PROXY_IGNORE_TLS_ERRORS === "true",
+  maxRequestBytes: MAX_REQUEST_BYTES,
+});
+
+/**
+ * One line per request once the response is sent. Query strings are left out,
+ * they may hold tokens.
+ */
+const logAccess = (req: IncomingMessage, res: ServerResponse) => {
+  const startedAt = Date.now();
+  res.on("finish", () => {
+    const [pathname] = (req.url || "").split("?");
+    console.log(
+      `${new Date(startedAt).toISOString()} ${req.socket.remoteAddress} "${req.method} ${pathname}" ${res.statusCode} ${Date.now() - startedAt}ms`
+    );
+  });
+};
+
+/**
+ * Serve a file of the built app. Unknown paths get index.html so reloading
+ * the app on any URL works.
+ */
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.writeHead(405, { Allow: "GET, HEAD" });
+    res.end();
+    return;
+  }
+
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(new URL(req.url || "/", "http://localhost").pathname);
+  } catch {
+    res.writeHead(400);
+    res.end();
+    return;
+  }
+
+  let filePath = path.join(STATIC_DIR, pathname);
+  if (filePath !== STATIC_DIR && !filePath.startsWith(`${STATIC_DIR}${path.sep}`)) {
+    res.writeHead(403);
+    res.end();
+    return;
+  }
+  const fileStat = await stat(filePath).catch(() => null);
+  if (!fileStat?.isFile()) {
+    filePath = path.join(STATIC_DIR, "index.html");
+  }
+
+  const extension = path.extname(filePath);
+  res.writeHead(200, {
+    "Content-Type": CONTENT_TYPES[extension] || "application/octet-stream",
+    // Build assets have hashed names; everything else, the service worker included, is revalidated
+    "Cache-Control": pathname.startsWith("/assets/")
+      ? "public, max-age=31536000, immutable"
+      : "no-cache",
+    "X-Content-Type-Options": "nosniff",
+  });
+  if (req.method === "HEAD") {
+    res.end();
+    return;
+  }
+  createReadStream(filePath)
+    .on("error", (err) => {
+      console.error("[server] Error reading", filePath, err);
+      res.destroy();
+    })
+    .pipe(res);
+};
+
+const server = http.createServer((req, res) => {
+  logAccess(req, res);
+  proxy(req, res, () => {
+    serveStatic(req, res).catch((err) => {
+      console.error("[server] Error serving", req.url, err);
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Serving ${STATIC_DIR} on http://${HOST}:${PORT}`);
+});
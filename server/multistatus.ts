@@ -0,0 +1,136 @@
+// Namespace of WebDAV elements, whatever prefix a server binds it to
+const DAV_NAMESPACE = "DAV:";
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+interface OpenElement {
+  // Prefix to namespace bindings in scope for the element and its children
+  namespaces: Map<string, string>;
+  // Start of the element's content when it's a DAV: href
+  hrefStart: number | null;
+}
+
+const decodeText = (raw: string): string =>
+  raw
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith("<![CDATA[")
+        ? part.slice(9, -3)
+        : part.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+            if (name[0] === "#") {
+              const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+              return String.fromCodePoint(code);
+            }
+            return ENTITIES[name] ?? entity;
+          })
+    )
+    .join("");
+
+const encodeText = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Index of the `>` closing the tag that starts at `start`, skipping quoted attribute values
+ */
+const findTagEnd = (xml: string, start: number): number => {
+  let quote: string | null = null;
+  for (let i = start + 1; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const parseStartTag = (tag: string, inherited: Map<string, string>) => {
+  const [, name, attributes] = /^<([^\s/>]+)([\s\S]*?)\/?>$/.exec(tag) || [];
+  let namespaces = inherited;
+  const declaration = /xmlns(?::([^\s=]+))?\s*=\s*("([^"]*)"|'([^']*)')/g;
+  for (let match = declaration.exec(attributes || ""); match; match = declaration.exec(attributes)) {
+    if (namespaces === inherited) namespaces = new Map(inherited);
+    namespaces.set(match[1] || "", match[3] ?? match[4]);
+  }
+
+  const separator = (name || "").indexOf(":");
+  const prefix = separator === -1 ? "" : name.slice(0, separator);
+  const localName = separator === -1 ? name : name.slice(separator + 1);
+  return { namespaces, isHref: localName === "href" && namespaces.get(prefix) === DAV_NAMESPACE };
+};
+
+/**
+ * Rewrite the text of every DAV: `href` element of a WebDAV response (a
+ * multistatus body, or any other XML), whatever prefix the namespace is bound
+ * to. The rest of the document is left byte for byte as it was.
+ * @param mapHref Receives the decoded href, returns its replacement
+ */
+export function rewriteDavHrefs(xml: string, mapHref: (href: string) => string): string {
+  const output: string[] = [];
+  let copiedUpTo = 0;
+  const stack: OpenElement[] = [];
+  let position = xml.indexOf("<");
+
+  while (position !== -1) {
+    let tagEnd: number;
+    if (xml.startsWith("<!--", position)) {
+      tagEnd = xml.indexOf("-->", position) + 2;
+    } else if (xml.startsWith("<![CDATA[", position)) {
+      tagEnd = xml.indexOf("]]>", position) + 2;
+    } else if (xml.startsWith("<?", position)) {
+      tagEnd = xml.indexOf("?>", position) + 1;
+    } else {
+      tagEnd = findTagEnd(xml, position);
+    }
+    if (tagEnd < position) break; // Truncated document, left as it is
+
+    const tag = xml.slice(position, tagEnd + 1);
+    if (tag.startsWith("</")) {
+      const element = stack.pop();
+      if (element?.hrefStart != null) {
+        output.push(
+          xml.slice(copiedUpTo, element.hrefStart),
+          encodeText(mapHref(decodeText(xml.slice(element.hrefStart, position).trim())))
+        );
+        copiedUpTo = position;
+      }
+    } else if (!tag.startsWith("<!") && !tag.startsWith("<?")) {
+      const inherited = stack[stack.length - 1]?.namespaces ?? new Map<string, string>();
+      const { namespaces, isHref } = parseStartTag(tag, inherited);
+      if (!tag.endsWith("/>")) {
+        stack.push({ namespaces, hrefStart: isHref ? tagEnd + 1 : null });
+      }
+    }
+
+    position = xml.indexOf("<", tagEnd + 1);
+  }
+
+  output.push(xml.slice(copiedUpTo));
+  return output.join("");
+}
+
+/**
+ * Map an href of a response from `requestUrl` to the proxy: hrefs relative to the
+ * request, absolute paths and absolute URLs all end up under `proxyBase`. Absolute
+ * URLs keep only their path, since servers behind a reverse proxy often report a
+ * host name the proxy doesn't use.
+ */
+export function toProxyHref(href: string, requestUrl: URL, proxyBase: string): string {
+  let url: URL;
+  try {
+    url = new URL(href, requestUrl);
+  } catch {
+    return href;
+  }
+  if (url.pathname.startsWith(`${proxyBase}/`)) return url.pathname + url.search;
+  return `${proxyBase}${url.pathname}${url.search}`;
+}
@@ -0,0 +1,247 @@
+import http, {
+  type IncomingMessage,
+  type OutgoingHttpHeaders,
+  type ServerResponse,
+} from "node:http";
+import https from "node:https";
+import { promisify } from "node:util";
+import zlib from "node:zlib";
+import { rewriteDavHrefs, toProxyHref } from "./multistatus.js";
+
+// Requests to `/webdav-proxy/<scheme>/<host[:port]>/<path>` are forwarded to
+// `<scheme>://<host[:port]>/<path>`. The app builds these paths in src/services/webdavProxy.ts.
+export const WEBDAV_PROXY_PREFIX = "/webdav-proxy";
+
+// Targets the dev server allows when no allowlist is configured. The production
+// server allows none: it listens on every interface, where loopback targets
+// would expose services of the host.
+export const DEFAULT_ALLOWLIST = "localhost,127.0.0.1,[::1]";
+
+// Headers that only concern the connection to the proxy
+const HOP_BY_HOP_HEADERS = [
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+];
+
+// Request headers forwarded to the target, with every `if-*` header. Cookies,
+// Origin and Referer of the app's own origin stay with the proxy.
+const FORWARDED_REQUEST_HEADERS = [
+  "accept",
+  "accept-encoding",
+  "authorization",
+  "content-length",
+  "content-type",
+  "depth",
+  "destination",
+  "overwrite",
+  "range",
+  // Joplin Server's session token and API version check
+  "x-api-auth",
+  "x-api-min-version",
+];
+
+// Response headers that would act on the app's own origin
+const DROPPED_RESPONSE_HEADERS = ["set-cookie", ...HOP_BY_HOP_HEADERS];
+
+export interface AllowRule {
+  host: RegExp;
+  // null allows any port
+  port: number | null;
+}
+
+export interface WebdavProxyOptions {
+  allowlist: AllowRule[];
+  // Accept self-signed certificates on https targets
+  ignoreTlsErrors?: boolean;
+  // Largest request body forwarded, unlimited when unset
+  maxRequestBytes?: number;
+}
+
+interface ProxyTarget {
+  url: URL;
+  // Path prefix the target's root is reachable under through the proxy
+  base: string;
+}
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+const DECOMPRESS: Record<string, (body: Buffer) => Promise<Buffer>> = {
+  gzip: promisify(zlib.gunzip),
+  "x-gzip": promisify(zlib.gunzip),
+  deflate: promisify(zlib.inflate),
+  br: promisify(zlib.brotliDecompress),
+};
+
+/**
+ * Body of a response as sent by the target, whatever its content encoding.
+ * Chunked transfer encoding is already undone by Node's HTTP parser.
+ */
+const readBody = async (res: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of res) chunks.push(chunk as Buffer);
+  const body = Buffer.concat(chunks);
+
+  const encoding = (res.headers["content-encoding"] || "identity").toLowerCase().trim();
+  if (encoding === "identity") return body;
+  const decompress = DECOMPRESS[encoding];
+  if (!decompress) throw new Error(`Unsupported content encoding: ${encoding}`);
+  return decompress(body);
+};
+
+/**
+ * Parse a comma-separated allowlist such as `localhost,*.lan,nas.local:5005,[::1]`.
+ * `*` matches any part of a host name; without a port every port is allowed.
+ */
+export function parseAllowlist(value: string): AllowRule[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = /^(\[[^\]]+\]|[^:]+)(?::(\d+|\*))?$/.exec(entry);
+      if (!match) {
+        throw new Error(`Invalid WebDAV proxy allowlist entry: ${entry}`);
+      }
+      const pattern = match[1]
+        .split("*")
+        .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+      return {
+        host: new RegExp(`^${pattern}$`),
+        port: match[2] && match[2] !== "*" ? Number(match[2]) : null,
+      };
+    });
+}
+
+const defaultPort = (url: URL): number => Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+
+export const isAllowed = (url: URL, allowlist: AllowRule[]): boolean =>
+  allowlist.some(
+    (rule) =>
+      rule.host.test(url.hostname.toLowerCase()) &&
+      (rule.port === null || rule.port === defaultPort(url))
+  );
+
+/**
+ * Target of a proxied request, null when the path isn't a valid proxy path
+ */
+export function parseProxyPath(path: string): ProxyTarget | null {
+  const match = /^\/webdav-proxy\/(https?)\/([^/?#]+)(.*)$/.exec(path);
+  if (!match) return null;
+
+  const [, scheme, host, rest] = match;
+  try {
+    return {
+      url: new URL(`${scheme}://${host}${rest.startsWith("/") ? rest : `/${rest}`}`),
+      base: `${WEBDAV_PROXY_PREFIX}/${scheme}/${host}`,
+    };
+  } catch {
+    return null;
+  }
+}
+
+const sendError = (res: ServerResponse, status: number, message: string) => {
+  if (res.writableEnded) return;
+  if (!res.headersSent) {
+    res.writeHead(status, { "Content-Type": "text/plain" });
+  }
+  res.end(message);
+};
+
+/**
+ * Connect-style middleware forwarding WebDAV requests to the allowed targets, so
+ * the browser only ever talks to its own origin. Hrefs in multistatus responses
+ * are rewritten to stay under the proxy path, since joplin-sync checks them
+ * against its base URL. Other responses are streamed as they are.
+ */
+export function createWebdavProxy(options: WebdavProxyOptions): Middleware {
+  return (req, res, next) => {
+    if (!req.url?.startsWith(`${WEBDAV_PROXY_PREFIX}/`)) {
+      next();
+      return;
+    }
+
+    const target = parseProxyPath(req.url);
+    if (!target) {
+      sendError(res, 400, "Invalid WebDAV proxy path");
+      return;
+    }
+    if (!isAllowed(target.url, options.allowlist)) {
+      sendError(res, 403, `WebDAV proxy target not allowed: ${target.url.host}`);
+      return;
+    }
+    const { maxRequestBytes } = options;
+    if (maxRequestBytes && Number(req.headers["content-length"] || 0) > maxRequestBytes) {
+      sendError(res, 413, "Request body too large");
+      return;
+    }
+
+    const headers: OutgoingHttpHeaders = { host: target.url.host };
+    Object.entries(req.headers).forEach(([name, value]) => {
+      if (FORWARDED_REQUEST_HEADERS.includes(name) || name.startsWith("if-")) headers[name] = value;
+    });
+
+    const client = target.url.protocol === "https:" ? https : http;
+    const proxyReq = client.request(target.url, {
+      method: req.method,
+      headers,
+      rejectUnauthorized: !options.ignoreTlsErrors,
+    });
+
+    proxyReq.on("response", (proxyRes) => {
+      const responseHeaders = { ...proxyRes.headers };
+      DROPPED_RESPONSE_HEADERS.forEach((name) => delete responseHeaders[name]);
+
+      // Only PROPFIND replies list hrefs; files, XML ones included, are streamed
+      const contentType = proxyRes.headers["content-type"] || "";
+      if (proxyRes.statusCode !== 207 || !contentType.includes("xml")) {
+        res.writeHead(proxyRes.statusCode || 200, responseHeaders);
+        proxyRes.pipe(res);
+        return;
+      }
+
+      readBody(proxyRes)
+        .then((body) => {
+          const rewrittenBody = rewriteDavHrefs(body.toString(), (href) =>
+            toProxyHref(href, target.url, target.base)
+          );
+
+          // The body is sent decompressed, and longer than the original
+          delete responseHeaders["content-encoding"];
+          responseHeaders["content-length"] = Buffer.byteLength(rewrittenBody).toString();
+          res.writeHead(proxyRes.statusCode || 200, responseHeaders);
+          res.end(rewrittenBody);
+        })
+        .catch((err) => {
+          console.error("[webdavProxy] Error rewriting response from", target.url.host, err);
+          sendError(res, 502, "Proxy error");
+        });
+    });
+
+    proxyReq.on("error", (err) => {
+      if (res.writableEnded) return;
+      console.error("[webdavProxy] Error forwarding to", target.url.host, err);
+      sendError(res, 502, "Proxy error");
+    });
+
+    if (maxRequestBytes) {
+      // Chunked uploads don't declare their length up front
+      let received = 0;
+      req.on("data", (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > maxRequestBytes) {
+          req.unpipe(proxyReq);
+          sendError(res, 413, "Request body too large");
+          proxyReq.destroy();
+        }
+      });
+    }
+    req.pipe(proxyReq);
+  };
+}
@@ -1,13 +1,43 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useEffectEvent, useRef, useSyncExternalStore } from "react";
 import "./App.css";
 import CredentialForm, { type Credentials } from "./components/CredentialForm";
 import ItemList from "./components/ItemList";
 import OneDriveOAuthHandler from "./components/OneDriveOAuthHandler";
+import MasterPasswordPrompt from "./components/MasterPasswordPrompt";
+import EnableEncryptionDialog from "./components/EnableEncryptionDialog";
+import SyncFolderPrompt from "./components/SyncFolderPrompt";
+import ProfilePicker from "./components/ProfilePicker";
+import ProfileExportDialog from "./components/ProfileExportDialog";
+import ProfileImportDialog from "./components/ProfileImportDialog";
+import ProfileVaultPrompt from "./components/ProfileVaultPrompt";
 import { joplinApi } from "./services/joplinApi";
-import { ProfileManager, type Profile } from "./services/profileManager";
-import { OneDriveOAuthService } from "./services/oneDriveOAuth";
+import {
+  ProfileManager,
+  type Profile,
+  type ProfileExportOptions,
+} from "./services/profileManager";
+import { credentialVault } from "./services/credentialVault";
+import { OneDriveOAuthService, fetchDriveId } from "./services/oneDriveOAuth";
+import { searchIndex } from "./services/searchIndex";
+import { LibraryLoader, type LoaderProgress } from "./services/libraryLoader";
+import { ItemCache, type CachedItem } from "./services/itemCache";
+import { encryptionService } from "./services/encryptionService";
+import { offlineState } from "./services/offlineState";
+import { restoreSyncFolder, saveSyncFolder } from "./services/syncFolder";
+import { unmountDirectory } from "./services/browserFs";
 import type { Item } from "joplin-sync";
 
+// Number of items loaded before the library is shown, the rest streams in afterwards
+const INITIAL_PAGE_SIZE = 50;
+
+/**
+ * Merge freshly fetched items into the list, replacing older copies by id
+ */
+const mergeItems = (current: Item[], incoming: Item[]): Item[] => {
+  const byId = new Map(current.map((item) => [item.id, item]));
+  incoming.forEach((item) => byId.set(item.id, item));
+  return Array.from(byId.values());
+};
 
 function App() {
   const [currentProfile, setCurrentProfile] = useState<Profile | null>(null);
@@ -16,6 +46,33 @@ function App() {
   const [error, setError] = useState<string | null>(null);
   const [items, setItems] = useState<Item[]>([]);
   const [allItemIds, setAllItemIds] = useState<string[]>([]);
+  const [loadProgress, setLoadProgress] = useState<LoaderProgress>({ loaded: 0, total: 0 });
+  const loaderRef = useRef<LibraryLoader | null>(null);
+  const cacheRef = useRef<ItemCache | null>(null);
+  const encryptionStatus = useSyncExternalStore(encryptionService.subscribe, () =>
+    encryptionService.getStatus()
+  );
+  const [skipDecryption, setSkipDecryption] = useState(false);
+  const [showEnableEncryption, setShowEnableEncryption] = useState(false);
+  const offlineStatus = useSyncExternalStore(offlineState.subscribe, () =>
+    offlineState.getStatus()
+  );
+  const [syncingEdits, setSyncingEdits] = useState(false);
+  // FileSystem profile waiting for the user to grant access to its folder again
+  const [folderPromptProfile, setFolderPromptProfile] = useState<Profile | null>(null);
+  const vaultStatus = useSyncExternalStore(credentialVault.subscribe, () =>
+    credentialVault.getStatus()
+  );
+  // Saved profiles can't be used until the passphrase is entered
+  const vaultLocked = vaultStatus.enabled && !vaultStatus.unlocked;
+  const [vaultPromptDismissed, setVaultPromptDismissed] = useState(false);
+  const [showVaultSetup, setShowVaultSetup] = useState(false);
+  // What the user asked for while the vault was locked, carried out once it is unlocked
+  const pendingVaultActionRef = useRef<(() => Promise<void>) | null>(null);
+  const profiles = useSyncExternalStore(ProfileManager.subscribe, ProfileManager.getProfilesSnapshot);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<Profile | null>(null);
+  const [profileTransfer, setProfileTransfer] = useState<"export" | "import" | null>(null);
   
   // OAuth flow state
   const [oauthAuthUrl, setOauthAuthUrl] = useState<string | null>(null);
@@ -42,8 +99,169 @@ function App() {
   // Register the OAuth handler with joplinApi
   joplinApi.setOAuthFlowHandler(oauthFlowHandler);
 
-  // Check for OAuth callback in URL on mount (when redirected back from Microsoft)
+  // Every item fetched from the sync target feeds the search index
   useEffect(() => {
+    return joplinApi.onItemsFetched((fetchedItems) => searchIndex.add(fetchedItems));
+  }, []);
+
+  /**
+   * Show the cached copy of the library, then list the sync target and only
+   * download items that changed since they were cached. Without a cache the
+   * first page is awaited and the rest streams into the tree in the background.
+   * Offline, only the cached copy is shown.
+   */
+  const loadLibrary = async (profileId: string) => {
+    loaderRef.current?.stop();
+    loaderRef.current = null;
+    cacheRef.current?.close();
+
+    let cache: ItemCache | null = null;
+    let cached: CachedItem[] = [];
+    try {
+      cache = await ItemCache.open(profileId);
+      cached = await cache.getAll();
+    } catch (err) {
+      console.warn("Item cache unavailable, loading everything from the sync target:", err);
+    }
+    cacheRef.current = cache;
+    joplinApi.setResourceCache(cache);
+
+    if (cached.length > 0) {
+      // The cache holds items as stored on the sync target, encrypted ones included
+      const cachedItems = await joplinApi.decryptItems(cached.map((entry) => entry.item));
+      setItems((prev) => mergeItems(prev, cachedItems));
+      searchIndex.add(cachedItems);
+      setLoading(false);
+      console.log(`Showing ${cached.length} cached items`);
+    }
+
+    if (!offlineState.isOnline()) return;
+
+    console.log('Fetching item list metadata...');
+    const allMeta = await joplinApi.listItems();
+
+    if (allMeta.length > 0) {
+      console.log('Sample item structure:', allMeta[0]);
+    }
+
+    // Remote updated_time of every .md file (notes/folders/tags), keyed by item id
+    const remoteTimes = new Map<string, number | null>();
+    allMeta.forEach((meta) => {
+      if (meta.path && meta.path.endsWith('.md')) {
+        remoteTimes.set(meta.path.replace('.md', ''), meta.updated_time ?? null);
+      }
+    });
+    const noteIds = Array.from(remoteTimes.keys());
+
+    setAllItemIds(noteIds);
+    console.log(`Found ${noteIds.length} valid .md items (from ${allMeta.length} total)`);
+
+    // Evict items that no longer exist on the sync target
+    const deletedIds = cached
+      .filter((entry) => !remoteTimes.has(entry.id))
+      .map((entry) => entry.id);
+    if (deletedIds.length > 0) {
+      searchIndex.remove(deletedIds);
+      cache?.delete(deletedIds).catch((err) => console.error("Failed to evict cached items:", err));
+    }
+    setItems((prev) => prev.filter((item) => remoteTimes.has(item.id)));
+
+    if (noteIds.length === 0) {
+      console.warn("No .md files found! Check sample item above to verify property names.");
+      return;
+    }
+
+    // Cached items whose remote file is unchanged don't need to be downloaded again
+    const unchangedIds = cached
+      .filter(
+        (entry) =>
+          entry.remoteUpdatedTime !== null &&
+          entry.remoteUpdatedTime === remoteTimes.get(entry.id)
+      )
+      .map((entry) => entry.id);
+    console.log(`${noteIds.length - unchangedIds.length} items changed since they were cached`);
+
+    const loader = new LibraryLoader(
+      (batch) => {
+        setItems((prev) => mergeItems(prev, batch));
+        cache
+          ?.put(
+            batch.map((item) => ({
+              id: item.id,
+              remoteUpdatedTime: remoteTimes.get(item.id) ?? null,
+              item: joplinApi.forStorage(item),
+            }))
+          )
+          .catch((err) => console.error("Failed to cache items:", err));
+      },
+      setLoadProgress
+    );
+    loaderRef.current = loader;
+    loader.start(noteIds, unchangedIds);
+
+    if (cached.length === 0) {
+      await loader.ensureLoaded(noteIds.slice(0, INITIAL_PAGE_SIZE));
+    }
+  };
+
+  /**
+   * Upload the edits queued while offline. Failures are shown but leave the
+   * rest of the queue for the next time the connection comes back.
+   */
+  const uploadOfflineEdits = async () => {
+    if (offlineState.getStatus().pendingCount === 0) return;
+
+    setSyncingEdits(true);
+    try {
+      const result = await joplinApi.replayOfflineEdits();
+      handleItemsUpdated(result.updated);
+      handleItemsDeleted(result.deletedIds);
+      if (result.conflictCount > 0) {
+        setError(
+          `${result.conflictCount} offline edit(s) collided with changes made elsewhere and were saved as conflict copies`
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to upload offline edits");
+      console.error("Offline edits upload error:", err);
+    } finally {
+      setSyncingEdits(false);
+    }
+  };
+
+  /**
+   * Connect to a saved profile, or show its cached library when offline.
+   * FileSystem profiles whose folder needs permission again prompt for it instead.
+   */
+  const connectProfile = async (profile: Profile) => {
+    setCurrentProfile(profile);
+    offlineState.setProfile(profile.id);
+    if (profile.type === "FileSystem" && !(await restoreSyncFolder(profile.id))) {
+      // Access can only be requested from a click
+      setFolderPromptProfile(profile);
+      return;
+    }
+
+    if (!offlineState.isOnline()) {
+      // Work from the cache until the connection comes back
+      console.log("Offline, showing the cached library");
+      joplinApi.restoreOfflineKeys();
+      setConnected(true);
+      await loadLibrary(profile.id);
+      return;
+    }
+
+    await joplinApi.connect(profile.credentials);
+    setConnected(true); // Redirect immediately, the library loads in the background
+    await uploadOfflineEdits();
+    await loadLibrary(profile.id);
+  };
+
+  // Check for OAuth callback in URL on mount (when redirected back from Microsoft),
+  // once the vault is unlocked so the new token can be saved
+  useEffect(() => {
+    if (vaultLocked) return;
+
     const handleOAuthCallback = async () => {
       const params = new URLSearchParams(window.location.search);
       const code = params.get('code');
@@ -111,10 +329,10 @@ function App() {
               
               // Update credentials with the auth token
               pendingCreds.onedrive.authToken = JSON.stringify(tokenData);
+              pendingCreds.onedrive.driveId = await fetchDriveId(pendingCreds.onedrive.authToken);
               
               // Save profile IMMEDIATELY after getting token (even if sync fails later)
-              const profile = ProfileManager.createProfile(pendingCreds);
-              ProfileManager.saveProfile(profile);
+              const profile = ProfileManager.saveCredentials(pendingCreds);
               ProfileManager.setActiveProfile(profile.id);
               setCurrentProfile(profile);
               console.log('Profile saved with auth token:', profile.name);
@@ -157,55 +375,32 @@ function App() {
     };
 
     handleOAuthCallback();
-  }, []); // Only run on mount
+  }, [vaultLocked]);
 
-  // Auto-reconnect on mount if there's an active profile
-  useEffect(() => {
-    const loadActiveProfile = async () => {
-      const activeProfile = ProfileManager.getActiveProfile();
-      if (activeProfile && !connected) {
-        console.log("Auto-reconnecting to saved profile:", activeProfile.name);
-        setCurrentProfile(activeProfile);
-        setLoading(true);
-        try {
-          await joplinApi.connect(activeProfile.credentials);
-          setConnected(true); // Redirect immediately on auto-reconnect too
-          console.log("Auto-reconnected successfully");
-          
-          // Optimized loading
-          const allMeta = await joplinApi.listItems();
-          
-          // Debug first item if needed
-          if (allMeta.length > 0 && !allMeta[0].name) {
-             // Fallback for OneDrive where it might be .filename or similar?
-             console.log('Sample item structure (auto-reconnect):', allMeta[0]);
-          }
+  const reconnectActiveProfile = useEffectEvent(async () => {
+    ProfileManager.mergeDuplicateProfiles();
+    const activeProfile = ProfileManager.getActiveProfile();
+    if (!activeProfile || connected) return;
 
-          const noteIds = allMeta
-            // @ts-ignore
-            .filter(item => item.path && item.path.endsWith('.md'))
-            // @ts-ignore
-            .map(item => item.path.replace('.md', ''));
-          
-          setAllItemIds(noteIds);
-            
-          if (noteIds.length > 0) {
-            const itemsToFetch = noteIds.slice(0, 50);
-            const fetchedItems = await joplinApi.getItems(itemsToFetch);
-            setItems(fetchedItems);
-          }
-        } catch (err) {
-          console.error("Auto-reconnect failed:", err);
-          // Don't show error for auto-reconnect, just clear the profile
-          ProfileManager.clearActiveProfile();
-          setCurrentProfile(null);
-        } finally {
-          setLoading(false);
-        }
-      }
-    };
-    loadActiveProfile();
-  }, []); // Only run on mount
+    console.log("Auto-reconnecting to saved profile:", activeProfile.name);
+    setLoading(true);
+    try {
+      await connectProfile(activeProfile);
+      console.log("Auto-reconnected successfully");
+    } catch (err) {
+      console.error("Auto-reconnect failed:", err);
+      // Don't show error for auto-reconnect, just clear the profile
+      ProfileManager.clearActiveProfile();
+      setCurrentProfile(null);
+    } finally {
+      setLoading(false);
+    }
+  });
+
+  // Auto-reconnect on mount if there's an active profile, once its credentials can be read
+  useEffect(() => {
+    if (!vaultLocked) reconnectActiveProfile();
+  }, [vaultLocked]);
 
   // Listen for auth token updates (OneDrive/GoogleDrive)
   useEffect(() => {
@@ -250,7 +445,20 @@ function App() {
     setOauthRejectCallback(null);
   };
 
+  // The drive id tells OneDrive accounts apart, for a pasted token it isn't known yet
+  const identifyOneDriveAccount = async (credentials: Credentials) => {
+    if (credentials.onedrive?.authToken && !credentials.onedrive.driveId) {
+      credentials.onedrive.driveId = await fetchDriveId(credentials.onedrive.authToken);
+    }
+  };
+
   const handleConnect = async (credentials: Credentials) => {
+    if (credentialVault.isLocked()) {
+      // The profile couldn't be saved, ask for the passphrase first
+      askVaultPassphrase(() => handleConnect(credentials));
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -288,48 +496,27 @@ function App() {
         sessionStorage.setItem('pending_oauth_credentials', JSON.stringify(credentials));
       }
       
+      await identifyOneDriveAccount(credentials);
       await joplinApi.connect(credentials);
       
       // 1. Redirect immediately!
       setConnected(true);
       
-      // Save profile to localStorage
-      const profile = ProfileManager.createProfile(credentials);
-      ProfileManager.saveProfile(profile);
+      // Save profile to localStorage, updating the target's profile when there is one
+      const profile = ProfileManager.saveCredentials(credentials);
       ProfileManager.setActiveProfile(profile.id);
       setCurrentProfile(profile);
+      offlineState.setProfile(profile.id);
+      if (credentials.type === "FileSystem") {
+        saveSyncFolder(profile.id, credentials.filesystem?.folderId).catch((err) => console.error("Failed to remember the sync folder:", err));
+      }
       
       // Clear pending OAuth if it exists
       sessionStorage.removeItem('pending_oauth_credentials');
       console.log("Connected successfully. Profile saved:", profile.name);
 
-      // 2. Fetch data in quickly
-      console.log('Fetching item list metadata...');
-      const allMeta = await joplinApi.listItems();
-      
-      if (allMeta.length > 0) {
-        console.log('Sample item structure:', allMeta[0]);
-      }
-
-      // Filter for .md files (notes/folders/tags)
-      const noteIds = allMeta
-        // @ts-ignore
-        .filter(item => (item.path && item.path.endsWith('.md')))
-        // @ts-ignore
-        .map(item => item.path.replace('.md', ''));
-      
-      setAllItemIds(noteIds);
-
-      console.log(`Found ${noteIds.length} valid .md items (from ${allMeta.length} total)`);
-      
-      if (noteIds.length > 0) {
-        // 3. Fetch content for first 50 items only
-        const itemsToFetch = noteIds.slice(0, 50);
-        const fetchedItems = await joplinApi.getItems(itemsToFetch);
-        setItems(fetchedItems);
-      } else {
-        console.warn("No .md files found! Check sample item above to verify property names.");
-      }
+      // 2. Show cached or first items quickly, the rest loads in the background
+      await loadLibrary(profile.id);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to connect";
@@ -341,16 +528,196 @@ function App() {
     }
   };
 
+  // Back online: connect if the app was started offline, upload the queued edits, then refresh
+  const handleBackOnline = useEffectEvent(async () => {
+    if (!connected || !currentProfile) return;
+
+    setLoading(true);
+    try {
+      if (!joplinApi.isInitialized()) {
+        await joplinApi.connect(currentProfile.credentials);
+      }
+      await uploadOfflineEdits();
+      await loadLibrary(currentProfile.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to reconnect");
+      console.error("Reconnect error:", err);
+    } finally {
+      setLoading(false);
+    }
+  });
+
+  useEffect(() => {
+    if (offlineStatus.online) handleBackOnline();
+  }, [offlineStatus.online]);
+
+  /**
+   * Grant access to the sync folder of the active FileSystem profile again, then connect
+   */
+  const handleReopenFolder = async () => {
+    if (!folderPromptProfile) return;
+    if (!(await restoreSyncFolder(folderPromptProfile.id, true))) {
+      throw new Error("Access to the sync folder wasn't granted");
+    }
+
+    setFolderPromptProfile(null);
+    setLoading(true);
+    try {
+      await joplinApi.connect(folderPromptProfile.credentials);
+      setConnected(true);
+      await loadLibrary(folderPromptProfile.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to connect");
+      console.error("Connection error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancelFolderPrompt = () => {
+    setFolderPromptProfile(null);
+    offlineState.setProfile(null);
+    ProfileManager.clearActiveProfile();
+    setCurrentProfile(null);
+  };
+
+  const askVaultPassphrase = (then: () => Promise<void>) => {
+    pendingVaultActionRef.current = then;
+    setVaultPromptDismissed(false);
+  };
+
+  const handleUnlockVault = async (passphrase: string) => {
+    await ProfileManager.unlockVault(passphrase);
+    const pending = pendingVaultActionRef.current;
+    pendingVaultActionRef.current = null;
+    await pending?.();
+  };
+
+  // Go on without the saved profiles: the active one is forgotten rather than reconnected on unlock
+  const handleDismissVault = () => {
+    setVaultPromptDismissed(true);
+    pendingVaultActionRef.current = null;
+    ProfileManager.clearActiveProfile();
+  };
+
+  const handleResetVault = () => {
+    ProfileManager.resetVault();
+    ProfileManager.clearActiveProfile();
+    const pending = pendingVaultActionRef.current;
+    pendingVaultActionRef.current = null;
+    pending?.();
+  };
+
+  /**
+   * Connect to a saved profile, leaving the current one first
+   */
+  const handleOpenProfile = async (profile: Profile) => {
+    if (credentialVault.isLocked()) {
+      askVaultPassphrase(() => handleOpenProfile(profile));
+      return;
+    }
+
+    setShowProfiles(false);
+    closeConnection();
+    ProfileManager.setActiveProfile(profile.id);
+    setLoading(true);
+    try {
+      await connectProfile(ProfileManager.getProfile(profile.id) ?? profile);
+      console.log("Connected to saved profile:", profile.name);
+    } catch (err) {
+      closeConnection();
+      setError(err instanceof Error ? err.message : "Failed to connect");
+      console.error("Connection error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRenameProfile = (profile: Profile, name: string) => {
+    ProfileManager.renameProfile(profile.id, name);
+    if (currentProfile?.id === profile.id) {
+      setCurrentProfile({ ...currentProfile, name });
+    }
+  };
+
+  const handleEditProfile = (profile: Profile) => {
+    const edit = async () => {
+      setShowProfiles(false);
+      setEditingProfile(ProfileManager.getProfile(profile.id));
+    };
+    // Passwords and tokens are filled in from the saved ones
+    if (credentialVault.isLocked()) askVaultPassphrase(edit);
+    else edit();
+  };
+
+  /**
+   * Save the edited credentials of a profile, then connect with them
+   */
+  const handleSaveProfileCredentials = async (credentials: Credentials) => {
+    if (!editingProfile) return;
+    const profileId = editingProfile.id;
+    setEditingProfile(null);
+    try {
+      await identifyOneDriveAccount(credentials);
+      ProfileManager.updateProfileCredentials(profileId, credentials);
+      if (credentials.type === "FileSystem") {
+        // The folder picked in the form replaces the one remembered for the profile
+        await saveSyncFolder(profileId, credentials.filesystem?.folderId);
+      }
+      // The profile may now point to the target of another one
+      ProfileManager.mergeDuplicateProfiles();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the profile");
+      return;
+    }
+
+    const profile = ProfileManager.getProfile(profileId) ?? ProfileManager.findProfile(credentials);
+    if (profile) await handleOpenProfile(profile);
+  };
+
+  const openProfileTransfer = (transfer: "export" | "import") => {
+    setShowProfiles(false);
+    // Imported passwords and tokens are saved to the vault
+    if (transfer === "import" && credentialVault.isLocked()) {
+      askVaultPassphrase(async () => setProfileTransfer(transfer));
+    } else {
+      setProfileTransfer(transfer);
+    }
+  };
+
+  const handleExportProfiles = async (options: ProfileExportOptions) => {
+    const bundle = await ProfileManager.exportProfiles(options);
+    const url = URL.createObjectURL(new Blob([bundle], { type: "application/json" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `joplin-profiles-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    // The download starts after the click returns
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    setProfileTransfer(null);
+  };
+
+  const handleDeleteProfile = (profile: Profile) => {
+    if (currentProfile?.id === profile.id) {
+      closeConnection();
+    }
+    ProfileManager.deleteProfile(profile.id);
+  };
+
+  const handleEnableVault = async (passphrase: string) => {
+    await ProfileManager.enableVault(passphrase);
+    setShowVaultSetup(false);
+  };
+
   const handleRefresh = async () => {
-    if (!joplinApi.isInitialized()) return;
+    if (!joplinApi.isInitialized() || !currentProfile) return;
 
     setLoading(true);
     setError(null);
 
     try {
-      const fetchedItems = await joplinApi.getItems();
-      setItems(fetchedItems);
-      console.log("Refreshed items:", fetchedItems);
+      await loadLibrary(currentProfile.id);
+      console.log("Refreshed library");
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "Failed to refresh";
@@ -361,13 +728,89 @@ function App() {
     }
   };
 
-  const handleDisconnect = () => {
+  // Fetch items the UI needs right away (a clicked link, a search result...)
+  const handleLoadItems = async (ids: string[]): Promise<Item[]> => {
+    if (!loaderRef.current) return [];
+    return loaderRef.current.ensureLoaded(ids);
+  };
+
+  const handleLoadRemaining = () => {
+    loaderRef.current?.hurry();
+  };
+
+  const handleItemsUpdated = (updated: Item[]) => {
+    setItems((prev) => mergeItems(prev, updated));
+    // The remote file time of a written item is unknown, so it is checked again on the next refresh
+    cacheRef.current
+      ?.put(
+        updated.map((item) => ({ id: item.id, remoteUpdatedTime: null, item: joplinApi.forStorage(item) }))
+      )
+      .catch((err) => console.error("Failed to cache items:", err));
+  };
+
+  const handleItemsDeleted = (ids: string[]) => {
+    const deleted = new Set(ids);
+    setItems((prev) => prev.filter((item) => !deleted.has(item.id)));
+    searchIndex.remove(ids);
+    cacheRef.current?.delete(ids).catch((err) => console.error("Failed to evict cached items:", err));
+  };
+
+  /**
+   * Unlock the master keys, then decrypt the items that were loaded while they were locked
+   */
+  const handleUnlock = async (password: string) => {
+    const unlockedCount = await encryptionService.unlock(password);
+    if (unlockedCount === 0) {
+      throw new Error("Wrong master password");
+    }
+
+    const decrypted = await joplinApi.decryptItems(items);
+    const changed = decrypted.filter((item, index) => item !== items[index]);
+    setItems((prev) => mergeItems(prev, changed));
+    searchIndex.add(changed);
+  };
+
+  const lockedKeyCount =
+    encryptionStatus.masterKeyIds.length - encryptionStatus.unlockedKeyIds.length;
+
+  /**
+   * Turn on encryption for the sync target, then decrypt what the (possibly just unlocked) keys can read
+   */
+  const handleEnableEncryption = async (password: string) => {
+    await joplinApi.enableEncryption(password);
+    setShowEnableEncryption(false);
+
+    const decrypted = await joplinApi.decryptItems(items);
+    const changed = decrypted.filter((item, index) => item !== items[index]);
+    setItems((prev) => mergeItems(prev, changed));
+    searchIndex.add(changed);
+  };
+
+  /**
+   * Stop using the current profile and go back to the login screen
+   */
+  const closeConnection = () => {
+    loaderRef.current?.stop();
+    loaderRef.current = null;
+    cacheRef.current?.close();
+    cacheRef.current = null;
     joplinApi.disconnect();
+    unmountDirectory();
+    offlineState.setProfile(null);
+    searchIndex.clear();
     ProfileManager.clearActiveProfile();
     setCurrentProfile(null);
     setConnected(false);
     setItems([]);
+    setAllItemIds([]);
+    setLoadProgress({ loaded: 0, total: 0 });
+    setSkipDecryption(false);
+    setShowEnableEncryption(false);
     setError(null);
+  };
+
+  const handleDisconnect = () => {
+    closeConnection();
     console.log("Logged out successfully");
   };
 
@@ -380,6 +823,49 @@ function App() {
             <span className="profile-badge">
               {currentProfile.type}
             </span>
+            <button
+              onClick={() => setShowProfiles(true)}
+              className="profile-switch-btn"
+              title="Switch to or manage your saved profiles"
+            >
+              {currentProfile.name} ▾
+            </button>
+            {!offlineStatus.online ? (
+              <span
+                className="offline-badge"
+                title="Showing the items downloaded before going offline. Edits are uploaded once the connection is back."
+              >
+                Offline
+                {offlineStatus.pendingCount > 0 &&
+                  ` · ${offlineStatus.pendingCount} pending edit${offlineStatus.pendingCount === 1 ? "" : "s"}`}
+              </span>
+            ) : (
+              syncingEdits && (
+                <span className="offline-badge syncing">
+                  Syncing {offlineStatus.pendingCount} edit{offlineStatus.pendingCount === 1 ? "" : "s"}…
+                </span>
+              )
+            )}
+            {encryptionStatus.activeMasterKeyId ? (
+              <span className="encryption-badge" title="New and edited items are encrypted">
+                🔒 E2EE
+              </span>
+            ) : (
+              offlineStatus.online && (
+                <button onClick={() => setShowEnableEncryption(true)} className="encryption-btn">
+                  Enable encryption
+                </button>
+              )
+            )}
+            {!vaultStatus.enabled && (
+              <button
+                onClick={() => setShowVaultSetup(true)}
+                className="vault-btn"
+                title="Saved passwords and tokens are stored in plain text in this browser"
+              >
+                Protect profiles
+              </button>
+            )}
             <button onClick={handleDisconnect} className="disconnect-btn">
               Logout
             </button>
@@ -388,8 +874,44 @@ function App() {
       </header>
 
       <main className="app-main">
-        {!connected ? (
-          <CredentialForm onSubmit={handleConnect} />
+        {editingProfile ? (
+          <CredentialForm
+            key={editingProfile.id}
+            initialCredentials={editingProfile.credentials}
+            onSubmit={handleSaveProfileCredentials}
+            onCancel={() => setEditingProfile(null)}
+          />
+        ) : !connected ? (
+          <>
+            {error && <p className="login-error">{error}</p>}
+            <section className="saved-profiles">
+              <div className="saved-profiles-header">
+                <h2 className="saved-profiles-title">
+                  {profiles.length > 0 ? "Saved profiles" : "No saved profiles"}
+                </h2>
+                {profiles.length > 0 && (
+                  <button className="saved-profiles-action" onClick={() => openProfileTransfer("export")}>
+                    Export
+                  </button>
+                )}
+                <button className="saved-profiles-action" onClick={() => openProfileTransfer("import")}>
+                  Import
+                </button>
+              </div>
+              {profiles.length > 0 && (
+                <ProfilePicker
+                  profiles={profiles}
+                  connectedProfileId={null}
+                  busy={loading}
+                  onConnect={handleOpenProfile}
+                  onRename={handleRenameProfile}
+                  onEdit={handleEditProfile}
+                  onDelete={handleDeleteProfile}
+                />
+              )}
+            </section>
+            <CredentialForm onSubmit={handleConnect} />
+          </>
         ) : (
           <ItemList
             items={items}
@@ -397,10 +919,95 @@ function App() {
             error={error}
             onRefresh={handleRefresh}
             totalCount={allItemIds.length}
+            loadedCount={loadProgress.loaded}
+            onLoadItems={handleLoadItems}
+            onLoadRemaining={handleLoadRemaining}
+            onItemsUpdated={handleItemsUpdated}
+            onItemsDeleted={handleItemsDeleted}
           />
         )}
       </main>
 
+      {connected && lockedKeyCount > 0 && !skipDecryption && (
+        <MasterPasswordPrompt
+          lockedCount={lockedKeyCount}
+          onUnlock={handleUnlock}
+          onSkip={() => setSkipDecryption(true)}
+        />
+      )}
+
+      {!connected && folderPromptProfile && (
+        <SyncFolderPrompt
+          syncPath={folderPromptProfile.credentials.filesystem?.syncPath || ""}
+          onReopen={handleReopenFolder}
+          onCancel={handleCancelFolderPrompt}
+        />
+      )}
+
+      {connected && showProfiles && (
+        <div className="master-password-overlay" onClick={() => setShowProfiles(false)}>
+          <div className="master-password-modal profiles-modal" onClick={(e) => e.stopPropagation()}>
+            <h2>Profiles</h2>
+            <ProfilePicker
+              profiles={profiles}
+              connectedProfileId={currentProfile?.id ?? null}
+              busy={loading}
+              onConnect={handleOpenProfile}
+              onRename={handleRenameProfile}
+              onEdit={handleEditProfile}
+              onDelete={handleDeleteProfile}
+            />
+            <div className="master-password-actions">
+              <button className="master-password-skip" onClick={() => openProfileTransfer("export")}>
+                Export
+              </button>
+              <button className="master-password-skip" onClick={() => openProfileTransfer("import")}>
+                Import
+              </button>
+              <button className="master-password-submit" onClick={() => setShowProfiles(false)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {profileTransfer === "export" && (
+        <ProfileExportDialog onExport={handleExportProfiles} onCancel={() => setProfileTransfer(null)} />
+      )}
+
+      {profileTransfer === "import" && (
+        <ProfileImportDialog
+          onImport={(bundle, passphrase) => ProfileManager.importProfiles(bundle, passphrase || undefined)}
+          onClose={() => setProfileTransfer(null)}
+        />
+      )}
+
+      {!connected && vaultLocked && !vaultPromptDismissed && (
+        <ProfileVaultPrompt
+          creating={false}
+          onSubmit={handleUnlockVault}
+          onCancel={handleDismissVault}
+          onReset={handleResetVault}
+        />
+      )}
+
+      {connected && showVaultSetup && (
+        <ProfileVaultPrompt
+          creating
+          onSubmit={handleEnableVault}
+          onCancel={() => setShowVaultSetup(false)}
+        />
+      )}
+
+      {connected && showEnableEncryption && (
+        <EnableEncryptionDialog
+          hasMasterKeys={encryptionStatus.masterKeyIds.length > 0}
+          onEnable={handleEnableEncryption}
+          onCancel={() => setShowEnableEncryption(false)}
+        />
+      )}
+
       {/* OAuth Flow Handler */}
       {oauthAuthUrl && (
         <OneDriveOAuthHandler
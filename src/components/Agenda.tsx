@@ -0,0 +1,85 @@
+import { useMemo } from "react";
+import type { Item } from "joplin-sync";
+import type { JoplinItem } from "../types/joplinItems";
+import { buildAgenda } from "../services/todoAgenda";
+import "./Agenda.css";
+
+interface Props {
+  items: Item[];
+  onSelect: (todo: Item) => void;
+  selectedId?: string;
+  // Missing when the to-dos are read-only
+  onToggle?: (todo: Item) => void;
+  // To-dos being written to the sync target
+  pendingIds: Set<string>;
+  // Undated to-dos may still be loading
+  libraryIncomplete: boolean;
+}
+
+const formatDue = (timestamp: number, groupKey: string): string => {
+  const date = new Date(timestamp);
+  if (groupKey === "today") {
+    return date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  }
+  return date.toLocaleString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+export default function Agenda({
+  items,
+  onSelect,
+  selectedId,
+  onToggle,
+  pendingIds,
+  libraryIncomplete,
+}: Props) {
+  // Recomputed with the items, which is often enough for the day boundaries to move
+  const groups = useMemo(() => buildAgenda(items), [items]);
+
+  return (
+    <div className="agenda">
+      {libraryIncomplete && <div className="agenda-status">Loading more to-dos…</div>}
+
+      {groups.length === 0 ? (
+        <div className="empty-state">
+          <p>No open to-dos</p>
+        </div>
+      ) : (
+        groups.map((group) => (
+          <section key={group.key} className={`agenda-group ${group.key}`}>
+            <h3 className="agenda-group-title">
+              {group.label} <span className="item-count">({group.todos.length})</span>
+            </h3>
+            {group.todos.map((todo) => {
+              const due = (todo as JoplinItem).todo_due;
+              return (
+                <div
+                  key={todo.id}
+                  className={`agenda-item ${todo.id === selectedId ? "selected" : ""}`}
+                  onClick={() => onSelect(todo)}
+                >
+                  <input
+                    type="checkbox"
+                    className="todo-checkbox"
+                    checked={false}
+                    disabled={!onToggle || pendingIds.has(todo.id)}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => onToggle?.(todo)}
+                    title="Mark as done"
+                  />
+                  <span className="agenda-item-title">{todo.title || "(Untitled)"}</span>
+                  {due ? <span className="agenda-item-due">{formatDue(due, group.key)}</span> : null}
+                </div>
+              );
+            })}
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from "react";
+import type { Item } from "joplin-sync";
+import { diffLines, toSideBySide, type DiffLine } from "../services/revisionHistory";
+import {
+  resolveConflict,
+  type ConflictPair,
+  type ConflictResolution,
+} from "../services/conflictResolver";
+import type { JoplinItem } from "../types/joplinItems";
+import "./ConflictResolver.css";
+
+interface Props {
+  pair: ConflictPair;
+  // Every loaded item, used to find the tag links of the conflict copy
+  items: Item[];
+  // The original may not be loaded yet
+  loadingOriginal: boolean;
+  // Tag links of the conflict copy, deleted with it, are only all known once everything is loaded
+  libraryIncomplete: boolean;
+  // Missing when the library is read-only
+  onItemsUpdated?: (items: Item[]) => void;
+  onItemsDeleted?: (ids: string[]) => void;
+  // Called with the note that was kept once the conflict is resolved
+  onResolved?: (note: Item | null) => void;
+}
+
+const formatDate = (timestamp?: number): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : "Unknown date";
+
+const renderCell = (line: DiffLine | undefined, side: "left" | "right") => {
+  if (!line) return <div className="conflict-cell empty" />;
+  const number = side === "left" ? line.oldNumber : line.newNumber;
+  return (
+    <div className={`conflict-cell ${line.kind}`}>
+      <span className="conflict-number">{number}</span>
+      <span className="conflict-text">{line.text || " "}</span>
+    </div>
+  );
+};
+
+export default function ConflictResolver({
+  pair,
+  items,
+  loadingOriginal,
+  libraryIncomplete,
+  onItemsUpdated,
+  onItemsDeleted,
+  onResolved,
+}: Props) {
+  const { conflict, original } = pair;
+  const [merging, setMerging] = useState(false);
+  const [mergeTitle, setMergeTitle] = useState("");
+  const [mergeBody, setMergeBody] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const theirs = original ?? { title: "", body: "" };
+  const rows = useMemo(
+    () => toSideBySide(diffLines(theirs.body || "", conflict.body || "")),
+    [theirs.body, conflict.body]
+  );
+
+  const encrypted =
+    !!(conflict as JoplinItem).encryption_applied || !!(original as JoplinItem | null)?.encryption_applied;
+  const canResolve = !!onItemsUpdated && !!onItemsDeleted && !encrypted && !libraryIncomplete;
+
+  const startMerge = () => {
+    // Start from the synced version, the copy's changes are on the right for reference
+    setMergeTitle((original ?? conflict).title || "");
+    setMergeBody((original ?? conflict).body || "");
+    setMerging(true);
+  };
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await resolveConflict(pair, resolution, items);
+      if (result.updated.length > 0) onItemsUpdated!(result.updated);
+      if (result.deletedIds.length > 0) onItemsDeleted!(result.deletedIds);
+      if (result.skippedCount > 0) {
+        setError(
+          "The note was changed or deleted on the sync target in the meantime, check the new version and try again"
+        );
+      } else {
+        onResolved?.(result.updated[0] ?? original);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resolve the conflict");
+      console.error("Error resolving conflict:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="conflict-resolver">
+      <p className="conflict-description">
+        This note is a conflict copy: it holds changes made on another device
+        {original ? ` while "${original.title || "(Untitled)"}" was changed elsewhere` : ""}.
+        {!original &&
+          (loadingOriginal
+            ? " The note it conflicts with is still loading."
+            : " The note it conflicts with is unknown or was deleted.")}
+      </p>
+
+      <div className="conflict-columns conflict-headings">
+        <div>
+          <strong>Theirs</strong> · synced version
+          <div className="conflict-meta">
+            {original ? formatDate(original.updated_time) : "Not available"}
+          </div>
+        </div>
+        <div>
+          <strong>Mine</strong> · conflict copy
+          <div className="conflict-meta">{formatDate(conflict.updated_time)}</div>
+        </div>
+      </div>
+
+      {(theirs.title || "") !== (conflict.title || "") && (
+        <div className="conflict-columns conflict-titles">
+          <div className="conflict-cell delete">{theirs.title || "(Untitled)"}</div>
+          <div className="conflict-cell insert">{conflict.title || "(Untitled)"}</div>
+        </div>
+      )}
+
+      <div className="conflict-diff">
+        {rows.map((row, i) => (
+          <div key={i} className="conflict-columns">
+            {renderCell(row.left, "left")}
+            {renderCell(row.right, "right")}
+          </div>
+        ))}
+      </div>
+
+      {merging ? (
+        <form
+          className="conflict-merge"
+          onSubmit={(e) => {
+            e.preventDefault();
+            resolve({ title: mergeTitle, body: mergeBody });
+          }}
+        >
+          <input
+            className="conflict-merge-title"
+            value={mergeTitle}
+            onChange={(e) => setMergeTitle(e.target.value)}
+            placeholder="Title"
+          />
+          <textarea
+            className="conflict-merge-body"
+            value={mergeBody}
+            onChange={(e) => setMergeBody(e.target.value)}
+            spellCheck={false}
+          />
+          <div className="conflict-actions">
+            <button type="button" className="nav-btn" onClick={() => setMerging(false)} disabled={busy}>
+              Cancel
+            </button>
+            <button type="submit" className="nav-btn" disabled={busy || !canResolve}>
+              {busy ? "Saving..." : "Save merged note"}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="conflict-actions">
+          <button
+            className="nav-btn"
+            onClick={() => resolve(null)}
+            disabled={busy || !canResolve}
+            title="Delete the conflict copy"
+          >
+            Keep theirs
+          </button>
+          <button
+            className="nav-btn"
+            onClick={() => resolve({ title: conflict.title || "", body: conflict.body || "" })}
+            disabled={busy || !canResolve}
+            title="Replace the synced version with the conflict copy"
+          >
+            Keep mine
+          </button>
+          <button className="nav-btn" onClick={startMerge} disabled={busy || !canResolve}>
+            Merge by hand
+          </button>
+        </div>
+      )}
+
+      {encrypted && (
+        <p className="conflict-error">Unlock the master key to resolve this conflict</p>
+      )}
+      {!encrypted && libraryIncomplete && (
+        <p className="conflict-description">The conflict can be resolved once the whole library is loaded.</p>
+      )}
+      {error && <p className="conflict-error">{error}</p>}
+    </div>
+  );
+}
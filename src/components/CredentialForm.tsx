@@ -1,5 +1,12 @@
 import { useState } from "react";
 import "./CredentialForm.css";
+import { fromProxyPath, resolveJoplinServerPath, resolveWebdavPath } from "../services/webdavProxy";
+import {
+  openBrowserStorageFolder,
+  pickSyncFolder,
+  supportsDirectoryPicker,
+  type SyncFolder,
+} from "../services/syncFolder";
 
 export type StorageType =
   | "FileSystem"
@@ -12,10 +19,11 @@ export interface Credentials {
   type: StorageType;
   filesystem?: {
     syncPath: string;
+    folderId?: string; // Tells folders with the same name apart, identifies the profile
   };
   webdav?: {
     username: string;
-    password: string;
+    password?: string; // Left out of profile exports without secrets
     path: string;
     ignoreTlsErrors?: boolean;
   };
@@ -26,11 +34,12 @@ export interface Credentials {
     isPublic?: boolean;
     redirectUri?: string;
     basePath?: string; // Custom sync folder path
+    driveId?: string; // Drive of the signed-in account, identifies the profile
   };
 
   joplinserver?: {
     username: string;
-    password: string;
+    password?: string; // Left out of profile exports without secrets
     path: string;
     userContentPath: string;
   };
@@ -44,69 +53,75 @@ export interface Credentials {
 
 interface Props {
   onSubmit: (credentials: Credentials) => void;
+  // Credentials of a saved profile to edit. Its storage type can't be changed,
+  // and a FileSystem profile's folder has to be picked again.
+  initialCredentials?: Credentials;
+  onCancel?: () => void;
 }
 
-export default function CredentialForm({ onSubmit }: Props) {
-  const [storageType, setStorageType] = useState<StorageType>("FileSystem");
+export default function CredentialForm({ onSubmit, initialCredentials: initial, onCancel }: Props) {
+  const [storageType, setStorageType] = useState<StorageType>(initial?.type ?? "FileSystem");
 
-  const [fileSystemPath, setFileSystemPath] = useState("");
+  // Folder picked for the FileSystem target, served by browserFs
+  const [fileSystemFolder, setFileSystemFolder] = useState<SyncFolder | null>(null);
+  const [folderError, setFolderError] = useState<string | null>(null);
 
-  const [webdavUsername, setWebdavUsername] = useState("joplin");
-  const [webdavPassword, setWebdavPassword] = useState("1");
-  const [webdavPath, setWebdavPath] = useState("http://localhost:6065/");
-  const [webdavIgnoreTls, setWebdavIgnoreTls] = useState(false);
-
-  // Convert localhost URLs to proxy path to avoid CORS
-  const getProxiedWebdavPath = (path: string): string => {
+  const chooseFolder = async (open: () => Promise<SyncFolder>) => {
+    setFolderError(null);
     try {
-      // If already a proxy path, return it
-      if (path.startsWith("/webdav-proxy")) {
-        return path;
-      }
-
-      // Check if it's a localhost URL
-      if (path.includes("localhost") || path.includes("127.0.0.1")) {
-        const url = new URL(path);
-        const port = url.port || (url.protocol === "https:" ? "443" : "80");
-        // Use proxy with port suffix to support multiple ports
-        let proxyPath = `/webdav-proxy-${port}${url.pathname}`;
-        // Ensure it ends with /
-        if (!proxyPath.endsWith("/")) {
-          proxyPath += "/";
-        }
-        return proxyPath;
-      }
-      return path;
-    } catch (e) {
-      console.error("Error converting path:", e, "Original path:", path);
-      // If it's already a relative path or invalid URL, return as-is
-      return path;
+      setFileSystemFolder(await open());
+    } catch (err) {
+      // Closing the picker isn't an error
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setFolderError(err instanceof Error ? err.message : "Failed to open the folder");
     }
   };
 
-  const [oneDriveClientId, setOneDriveClientId] = useState("");
-  const [oneDriveAuthToken, setOneDriveAuthToken] = useState("");
-  const [oneDriveSyncFolder, setOneDriveSyncFolder] = useState("Joplin"); // Default to Joplin app folder
+  const [webdavUsername, setWebdavUsername] = useState(initial?.webdav?.username ?? "joplin");
+  const [webdavPassword, setWebdavPassword] = useState(initial?.webdav ? initial.webdav.password ?? "" : "1");
+  const [webdavPath, setWebdavPath] = useState(
+    initial?.webdav ? fromProxyPath(initial.webdav.path) : "http://localhost:6065/"
+  );
+  const [webdavIgnoreTls, setWebdavIgnoreTls] = useState(!!initial?.webdav?.ignoreTlsErrors);
+
+  const [oneDriveClientId, setOneDriveClientId] = useState(initial?.onedrive?.clientId ?? "");
+  const [oneDriveAuthToken, setOneDriveAuthToken] = useState(initial?.onedrive?.authToken ?? "");
+  const [oneDriveSyncFolder, setOneDriveSyncFolder] = useState(
+    initial?.onedrive ? (initial.onedrive.basePath ?? "").replace(/^Apps\//, "") : "Joplin"
+  ); // Default to Joplin app folder
+
+  const [joplinServerUsername, setJoplinServerUsername] = useState(initial?.joplinserver?.username ?? "");
+  const [joplinServerPassword, setJoplinServerPassword] = useState(initial?.joplinserver?.password ?? "");
+  const [joplinServerPath, setJoplinServerPath] = useState(
+    initial?.joplinserver ? fromProxyPath(initial.joplinserver.path) : ""
+  );
+  const [joplinServerUserContentPath, setJoplinServerUserContentPath] = useState(
+    initial?.joplinserver?.userContentPath ? fromProxyPath(initial.joplinserver.userContentPath) : ""
+  );
 
-  const [joplinServerUsername, setJoplinServerUsername] = useState("");
-  const [joplinServerPassword, setJoplinServerPassword] = useState("");
-  const [joplinServerPath, setJoplinServerPath] = useState("");
-  const [joplinServerUserContentPath, setJoplinServerUserContentPath] =
-    useState("");
+  const [googleDriveClientId, setGoogleDriveClientId] = useState(initial?.googledrive?.clientId ?? "");
+  const [googleDriveClientSecret, setGoogleDriveClientSecret] = useState(
+    initial?.googledrive?.clientSecret ?? ""
+  );
+  const [googleDriveAuthToken, setGoogleDriveAuthToken] = useState(initial?.googledrive?.authToken ?? "");
 
-  const [googleDriveClientId, setGoogleDriveClientId] = useState("");
-  const [googleDriveClientSecret, setGoogleDriveClientSecret] = useState("");
-  const [googleDriveAuthToken, setGoogleDriveAuthToken] = useState("");
+  const [resolvingServer, setResolvingServer] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     const credentials: Credentials = { type: storageType };
 
     if (storageType === "FileSystem") {
-      credentials.filesystem = { syncPath: fileSystemPath };
+      credentials.filesystem = {
+        syncPath: fileSystemFolder?.syncPath ?? "",
+        folderId: fileSystemFolder?.folderId,
+      };
     } else if (storageType === "WebDAV") {
-      const proxiedPath = getProxiedWebdavPath(webdavPath);
+      // Servers that don't allow cross-origin requests are reached through the proxy
+      setResolvingServer(true);
+      const proxiedPath = await resolveWebdavPath(webdavPath, webdavUsername, webdavPassword);
+      setResolvingServer(false);
       console.log("Original path:", webdavPath);
       console.log("Proxied path:", proxiedPath);
       credentials.webdav = {
@@ -129,13 +144,24 @@ export default function CredentialForm({ onSubmit }: Props) {
         // Format: /drives/{driveId}/root:/Apps/{syncFolder}
         // The syncFolder is stored here and will be used after we get driveId
         basePath: oneDriveSyncFolder ? `Apps/${oneDriveSyncFolder}` : undefined,
+        // Another token may belong to another account
+        driveId:
+          oneDriveAuthToken === initial?.onedrive?.authToken ? initial.onedrive.driveId : undefined,
       };
     } else if (storageType === "JoplinServer") {
+      setResolvingServer(true);
+      const serverPath = await resolveJoplinServerPath(joplinServerPath);
+      // The user content host needs the proxy too when the server does
+      const userContentPath =
+        joplinServerUserContentPath && serverPath !== joplinServerPath
+          ? await resolveJoplinServerPath(joplinServerUserContentPath)
+          : joplinServerUserContentPath;
+      setResolvingServer(false);
       credentials.joplinserver = {
         username: joplinServerUsername,
         password: joplinServerPassword,
-        path: joplinServerPath,
-        userContentPath: joplinServerUserContentPath,
+        path: serverPath,
+        userContentPath,
       };
     } else if (storageType === "GoogleDrive") {
       credentials.googledrive = {
@@ -151,7 +177,9 @@ export default function CredentialForm({ onSubmit }: Props) {
 
   return (
     <div className="credential-form-container">
-      <h2 className="credential-form-title">Connect to Joplin Storage</h2>
+      <h2 className="credential-form-title">
+        {initial ? "Edit connection" : "Connect to Joplin Storage"}
+      </h2>
 
       <form onSubmit={handleSubmit} className="credential-form">
         <div className="form-group">
@@ -160,6 +188,7 @@ export default function CredentialForm({ onSubmit }: Props) {
             value={storageType}
             onChange={(e) => setStorageType(e.target.value as StorageType)}
             className="form-select"
+            disabled={!!initial}
           >
             <option value="FileSystem">File System</option>
             <option value="WebDAV">WebDAV</option>
@@ -175,17 +204,31 @@ export default function CredentialForm({ onSubmit }: Props) {
 
         {storageType === "FileSystem" && (
           <div className="form-group">
-            <label className="form-label">File Path</label>
-            <input
-              type="text"
-              value={fileSystemPath}
-              onChange={(e) => setFileSystemPath(e.target.value)}
-              placeholder="/path/to/joplin/sync/folder"
-              className="form-input"
-              required
-            />
+            <label className="form-label">Sync Folder</label>
+            <div className="folder-picker">
+              {supportsDirectoryPicker() && (
+                <button
+                  type="button"
+                  className="folder-picker-btn"
+                  onClick={() => chooseFolder(pickSyncFolder)}
+                >
+                  Choose folder...
+                </button>
+              )}
+              <button
+                type="button"
+                className="folder-picker-btn"
+                onClick={() => chooseFolder(openBrowserStorageFolder)}
+              >
+                Use browser storage
+              </button>
+              {fileSystemFolder && <span className="folder-picker-path">{fileSystemFolder.syncPath}</span>}
+            </div>
+            {folderError && <p className="folder-picker-error">{folderError}</p>}
             <small className="form-hint">
-              Enter the absolute path to your Joplin sync folder
+              {supportsDirectoryPicker()
+                ? "Choose the folder your Joplin clients sync to. The browser asks for access to it again after a restart."
+                : "This browser can't open local folders: notes are kept in its private storage, where other Joplin clients can't reach them."}
             </small>
           </div>
         )}
@@ -203,8 +246,9 @@ export default function CredentialForm({ onSubmit }: Props) {
                 required
               />
               <small className="form-hint">
-                Enter your WebDAV server URL. Localhost URLs will automatically
-                use CORS proxy.
+                Enter your WebDAV server URL. Servers that don't allow
+                cross-origin requests are reached through the app's proxy, for
+                the hosts it allows.
                 <br />
                 Examples: http://localhost:6065/, https://myserver.com/webdav/
               </small>
@@ -413,9 +457,18 @@ export default function CredentialForm({ onSubmit }: Props) {
           </>
         )}
 
-        <button type="submit" className="submit-btn">
-          Connect
+        <button
+          type="submit"
+          className="submit-btn"
+          disabled={resolvingServer || (storageType === "FileSystem" && !fileSystemFolder)}
+        >
+          {resolvingServer ? "Checking server..." : initial ? "Save and connect" : "Connect"}
         </button>
+        {onCancel && (
+          <button type="button" className="cancel-btn" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
       </form>
     </div>
   );
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import "./MasterPasswordPrompt.css";
+
+interface Props {
+  // The sync target already has master keys, so the password must match them
+  hasMasterKeys: boolean;
+  // Rejects when encryption couldn't be enabled
+  onEnable: (password: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function EnableEncryptionDialog({ hasMasterKeys, onEnable, onCancel }: Props) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [enabling, setEnabling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mismatch = !hasMasterKeys && confirmation !== "" && confirmation !== password;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEnabling(true);
+    setError(null);
+    try {
+      await onEnable(password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to enable encryption");
+    } finally {
+      setEnabling(false);
+    }
+  };
+
+  return (
+    <div className="master-password-overlay">
+      <form className="master-password-modal" onSubmit={handleSubmit}>
+        <h2>🔒 Enable encryption</h2>
+        <p className="master-password-description">
+          {hasMasterKeys
+            ? "This sync target already has a master key. Enter its master password to encrypt the notes you create or edit from here with it."
+            : "A new master key will be created and stored on the sync target, protected by this password. There is no way to recover it, so keep it safe: your other Joplin clients will ask for it once they sync."}{" "}
+          Existing notes stay as they are until a desktop or mobile client re-encrypts them.
+        </p>
+
+        <input
+          type="password"
+          className="master-password-input"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Master password"
+          autoComplete={hasMasterKeys ? "current-password" : "new-password"}
+          autoFocus
+        />
+        {!hasMasterKeys && (
+          <input
+            type="password"
+            className="master-password-input"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm master password"
+            autoComplete="new-password"
+          />
+        )}
+
+        {mismatch && <p className="master-password-error">The passwords don't match</p>}
+        {error && <p className="master-password-error">{error}</p>}
+
+        <div className="master-password-actions">
+          <button type="button" className="master-password-skip" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="master-password-submit"
+            disabled={enabling || !password || (!hasMasterKeys && confirmation !== password)}
+          >
+            {enabling ? "Enabling..." : "Enable"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import type { Item } from "joplin-sync";
+import {
+  importSource,
+  readDataTransfer,
+  readFileList,
+  type ImportProgress,
+  type ImportSource,
+} from "../services/importer";
+import "./ImportDialog.css";
+
+interface Props {
+  // Every loaded item, used to reuse existing tags
+  items: Item[];
+  // Called with the created items and the notebook holding them
+  onImported: (created: Item[], rootFolder: Item) => void;
+  onClose: () => void;
+}
+
+export default function ImportDialog({ items, onImported, onClose }: Props) {
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const readSource = async (read: Promise<ImportSource>) => {
+    setError(null);
+    try {
+      const next = await read;
+      if (next.files.length === 0) throw new Error("No files found");
+      setSource(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the files");
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    readSource(readDataTransfer(e.dataTransfer));
+  };
+
+  const handleImport = async () => {
+    if (!source) return;
+    setImporting(true);
+    setError(null);
+    try {
+      const result = await importSource(source, items, setProgress);
+      onImported(result.created, result.rootFolder);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import");
+    } finally {
+      setImporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="import-overlay">
+      <div className="import-modal">
+        <h2>Import</h2>
+        <p className="import-description">
+          Drop a folder or zip of Markdown files, or an Evernote <code>.enex</code> export. Everything
+          is added to a new notebook; images linked from Markdown notes become attachments.
+        </p>
+
+        <div
+          className={`import-dropzone ${dragging ? "dragging" : ""}`}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+        >
+          {source ? (
+            <span>
+              <strong>{source.name}</strong> · {source.files.length} file
+              {source.files.length === 1 ? "" : "s"}
+            </span>
+          ) : (
+            <span>Drop files or a folder here</span>
+          )}
+          <div className="import-pickers">
+            <label className="nav-btn">
+              Choose files
+              <input
+                type="file"
+                multiple
+                accept=".md,.markdown,.zip,.enex"
+                onChange={(e) => e.target.files && readSource(readFileList(e.target.files))}
+                hidden
+              />
+            </label>
+            <label className="nav-btn">
+              Choose folder
+              <input
+                type="file"
+                ref={(input) => input?.setAttribute("webkitdirectory", "")}
+                onChange={(e) => e.target.files && readSource(readFileList(e.target.files))}
+                hidden
+              />
+            </label>
+          </div>
+        </div>
+
+        {error && <p className="import-error">{error}</p>}
+
+        <div className="import-actions">
+          <button className="nav-btn" onClick={onClose} disabled={importing}>
+            Cancel
+          </button>
+          <button className="nav-btn" onClick={handleImport} disabled={!source || importing}>
+            {progress ? `Importing ${progress.done}/${progress.total}…` : importing ? "Importing…" : "Import"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
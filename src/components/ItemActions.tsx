@@ -0,0 +1,380 @@
+import { useMemo, useState } from "react";
+import type { Item } from "joplin-sync";
+import type { SaveResult } from "../services/joplinApi";
+import type { JoplinItem } from "../types/joplinItems";
+import {
+  collectDescendants,
+  createFolder,
+  createNote,
+  deleteItemPermanently,
+  moveItem,
+  renameItem,
+  trashItem,
+  type OperationResult,
+} from "../services/itemOperations";
+import {
+  EXPORT_FORMATS,
+  exportItems,
+  type ExportFormat,
+  type ExportProgress,
+} from "../services/exporter";
+import ImportDialog from "./ImportDialog";
+import "./ItemActions.css";
+
+interface Props {
+  // Item to act on, or null for the top level of the library
+  item: Item | null;
+  // Every loaded item, used to find children and move targets
+  items: Item[];
+  // Structural changes need the whole library to find every child
+  libraryIncomplete: boolean;
+  onItemsUpdated: (items: Item[]) => void;
+  onItemsDeleted: (ids: string[]) => void;
+  onCreated: (item: Item) => void;
+}
+
+const NOTE_TYPE = 1;
+const FOLDER_TYPE = 2;
+
+type Mode = "rename" | "move" | "delete" | "new-folder" | "export" | "import" | null;
+
+interface FolderOption {
+  folder: Item;
+  depth: number;
+}
+
+/**
+ * Notebooks in tree order with their depth, for the move target list
+ */
+const flattenFolders = (folders: Item[]): FolderOption[] => {
+  const byParent = new Map<string, Item[]>();
+  const ids = new Set(folders.map((folder) => folder.id));
+  folders.forEach((folder) => {
+    const parentId = folder.parent_id && ids.has(folder.parent_id) ? folder.parent_id : "";
+    if (!byParent.has(parentId)) byParent.set(parentId, []);
+    byParent.get(parentId)!.push(folder);
+  });
+
+  const options: FolderOption[] = [];
+  const visit = (parentId: string, depth: number) => {
+    (byParent.get(parentId) || [])
+      .sort((a, b) => (a.title || "").localeCompare(b.title || ""))
+      .forEach((folder) => {
+        options.push({ folder, depth });
+        visit(folder.id, depth + 1);
+      });
+  };
+  visit("", 0);
+  return options;
+};
+
+export default function ItemActions({
+  item,
+  items,
+  libraryIncomplete,
+  onItemsUpdated,
+  onItemsDeleted,
+  onCreated,
+}: Props) {
+  const [mode, setMode] = useState<Mode>(null);
+  const [title, setTitle] = useState("");
+  const [targetFolderId, setTargetFolderId] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("jex");
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+
+  const isFolder = !item || item.type_ === FOLDER_TYPE;
+
+  const descendants = useMemo(
+    () => (item && item.type_ === FOLDER_TYPE ? collectDescendants(items, item.id) : []),
+    [item, items]
+  );
+
+  const moveTargets = useMemo(() => {
+    if (!item) return [];
+    const excluded = new Set([item.id, ...descendants.map((child) => child.id)]);
+    const folders = items.filter(
+      (candidate) =>
+        candidate.type_ === FOLDER_TYPE && !(candidate as JoplinItem).deleted_time
+    );
+    return flattenFolders(folders).filter(
+      ({ folder }) => item.type_ === NOTE_TYPE || !excluded.has(folder.id)
+    );
+  }, [item, items, descendants]);
+
+  const openMode = (next: Mode) => {
+    setError(null);
+    setMode(next);
+    if (next === "rename") setTitle(item?.title || "");
+    if (next === "new-folder") setTitle("");
+    if (next === "move") setTargetFolderId(item?.parent_id || "");
+  };
+
+  /**
+   * Run an operation with the busy flag and error reporting
+   */
+  const run = async (operation: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Operation failed");
+      console.error("Error updating library:", err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const applySaveResult = (result: SaveResult) => {
+    if (result.status === "saved") {
+      onItemsUpdated([result.item]);
+      setMode(null);
+    } else if (result.status === "conflict") {
+      onItemsUpdated([result.remote]);
+      setError("This item was changed on the sync target in the meantime, check it and try again");
+    } else {
+      onItemsDeleted([item!.id]);
+      setError("This item was deleted on the sync target");
+    }
+  };
+
+  const applyOperationResult = (result: OperationResult) => {
+    if (result.updated.length > 0) onItemsUpdated(result.updated);
+    if (result.deletedIds.length > 0) onItemsDeleted(result.deletedIds);
+    if (result.skippedCount > 0) {
+      setError(
+        `${result.skippedCount} item(s) changed on the sync target in the meantime and were left as they are`
+      );
+    } else {
+      setMode(null);
+    }
+  };
+
+  const handleNewNote = () =>
+    run(async () => {
+      onCreated(await createNote(item!.id));
+    });
+
+  const handleNewFolder = () =>
+    run(async () => {
+      const folder = await createFolder(item?.id || "", title.trim());
+      setMode(null);
+      onCreated(folder);
+    });
+
+  const handleRename = () =>
+    run(async () => applySaveResult(await renameItem(item!, title.trim())));
+
+  const handleMove = () =>
+    run(async () => applySaveResult(await moveItem(item!, targetFolderId, items)));
+
+  const handleTrash = () => run(async () => applyOperationResult(await trashItem(item!, items)));
+
+  const handleDeletePermanently = () =>
+    run(async () => applyOperationResult(await deleteItemPermanently(item!, items)));
+
+  const handleExport = () =>
+    run(async () => {
+      try {
+        const result = await exportItems(item!, items, exportFormat, setExportProgress);
+        const url = URL.createObjectURL(result.blob);
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = result.fileName;
+        link.click();
+        // The download starts after the click returns
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+
+        if (result.skippedCount > 0) {
+          setError(
+            `${result.skippedCount} encrypted or unavailable item(s) were left out of the export`
+          );
+        } else {
+          setMode(null);
+        }
+      } finally {
+        setExportProgress(null);
+      }
+    });
+
+  const structureLocked = isFolder && libraryIncomplete;
+
+  return (
+    <div className="item-actions">
+      <div className="item-actions-buttons">
+        {item && isFolder && (
+          <button className="nav-btn" onClick={handleNewNote} disabled={busy}>
+            + Note
+          </button>
+        )}
+        {isFolder && (
+          <button className="nav-btn" onClick={() => openMode("new-folder")} disabled={busy}>
+            + Notebook
+          </button>
+        )}
+        {!item && (
+          <button className="nav-btn" onClick={() => openMode("import")} disabled={busy}>
+            Import
+          </button>
+        )}
+        {item && (
+          <>
+            <button className="nav-btn" onClick={() => openMode("rename")} disabled={busy}>
+              Rename
+            </button>
+            <button
+              className="nav-btn"
+              onClick={() => openMode("export")}
+              disabled={busy || structureLocked}
+              title={structureLocked ? "Available once the whole library is loaded" : undefined}
+            >
+              Export
+            </button>
+            <button
+              className="nav-btn"
+              onClick={() => openMode("move")}
+              disabled={busy || structureLocked}
+            >
+              Move
+            </button>
+            <button
+              className="nav-btn danger"
+              onClick={() => openMode("delete")}
+              disabled={busy || structureLocked}
+              title={structureLocked ? "Available once the whole library is loaded" : undefined}
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {(mode === "rename" || mode === "new-folder") && (
+        <form
+          className="item-actions-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (mode === "rename") handleRename();
+            else handleNewFolder();
+          }}
+        >
+          <input
+            autoFocus
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={mode === "rename" ? "Title" : "Notebook name"}
+          />
+          <button type="submit" className="nav-btn" disabled={busy || !title.trim()}>
+            {mode === "rename" ? "Rename" : "Create"}
+          </button>
+          <button type="button" className="nav-btn" onClick={() => setMode(null)}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {mode === "move" && item && (
+        <form
+          className="item-actions-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleMove();
+          }}
+        >
+          <select value={targetFolderId} onChange={(e) => setTargetFolderId(e.target.value)}>
+            {item.type_ === FOLDER_TYPE && <option value="">(Top level)</option>}
+            {item.type_ === NOTE_TYPE && !item.parent_id && <option value="">Choose a notebook</option>}
+            {moveTargets.map(({ folder, depth }) => (
+              <option key={folder.id} value={folder.id}>
+                {"  ".repeat(depth)}
+                {folder.title || "(Untitled)"}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="nav-btn"
+            disabled={busy || targetFolderId === (item.parent_id || "")}
+          >
+            Move
+          </button>
+          <button type="button" className="nav-btn" onClick={() => setMode(null)}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {mode === "export" && item && (
+        <form
+          className="item-actions-form"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleExport();
+          }}
+        >
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            disabled={busy}
+          >
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+              <option key={format} value={format}>
+                {EXPORT_FORMATS[format]}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className="nav-btn" disabled={busy}>
+            {exportProgress
+              ? `Exporting ${exportProgress.done}/${exportProgress.total} files…`
+              : "Export"}
+          </button>
+          <button type="button" className="nav-btn" onClick={() => setMode(null)} disabled={busy}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {mode === "import" && (
+        <ImportDialog
+          items={items}
+          onImported={(created, rootFolder) => {
+            onItemsUpdated(created);
+            onCreated(rootFolder);
+          }}
+          onClose={() => setMode(null)}
+        />
+      )}
+
+      {mode === "delete" && item && (
+        <div className="item-actions-confirm">
+          <p>
+            Delete "{item.title || "(Untitled)"}"
+            {descendants.length > 0 && ` and the ${descendants.length} item(s) inside it`}? Items
+            moved to the trash can be restored from the desktop client.
+          </p>
+          <div className="item-actions-buttons">
+            <button className="nav-btn" onClick={handleTrash} disabled={busy}>
+              Move to trash
+            </button>
+            <button
+              className="nav-btn danger"
+              onClick={handleDeletePermanently}
+              // Tag links of notes are only all known once the whole library is loaded
+              disabled={busy || libraryIncomplete}
+              title={libraryIncomplete ? "Available once the whole library is loaded" : undefined}
+            >
+              Delete permanently
+            </button>
+            <button className="nav-btn" onClick={() => setMode(null)} disabled={busy}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="item-actions-error">{error}</p>}
+    </div>
+  );
+}
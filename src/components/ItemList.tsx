@@ -1,6 +1,20 @@
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState, useMemo, useRef } from "react";
 import type { Item } from "joplin-sync";
 import { joplinApi } from "../services/joplinApi";
+import type { JoplinItem } from "../types/joplinItems";
+import { buildTagIndex } from "../services/tagIndex";
+import { groupRevisionsByNote } from "../services/revisionHistory";
+import { setTodoCompleted } from "../services/itemOperations";
+import { isTodo, isTodoCompleted } from "../services/todoAgenda";
+import { findConflicts } from "../services/conflictResolver";
+import { useNavigationHistory, type HistoryEntry } from "../hooks/useNavigationHistory";
+import NoteBody from "./NoteBody";
+import SearchResults from "./SearchResults";
+import RevisionHistory from "./RevisionHistory";
+import NoteEditor from "./NoteEditor";
+import ItemActions from "./ItemActions";
+import Agenda from "./Agenda";
+import ConflictResolver from "./ConflictResolver";
 import "./ItemList.css";
 
 interface Props {
@@ -9,6 +23,16 @@ interface Props {
   error: string | null;
   onRefresh: () => void;
   totalCount?: number;
+  // Number of items whose content has been loaded so far
+  loadedCount?: number;
+  // Fetch items that aren't loaded yet ahead of the background loader
+  onLoadItems?: (ids: string[]) => Promise<Item[]>;
+  // Ask the background loader to fetch the rest of the library right away
+  onLoadRemaining?: () => void;
+  // Report items written to the sync target so they replace the loaded copies
+  onItemsUpdated?: (items: Item[]) => void;
+  // Report items removed from the sync target
+  onItemsDeleted?: (ids: string[]) => void;
 }
 
 interface TreeNode {
@@ -21,15 +45,43 @@ const ITEM_TYPES = {
   FOLDER: 2,
   RESOURCE: 4,
   TAG: 5,
+  NOTE_TAG: 6,
   REVISION: 13,
 } as const;
 
-export default function ItemList({ items, loading, error, onRefresh, totalCount }: Props) {
+// Stable empty list so the revision history doesn't rebuild on every render
+const NO_REVISIONS: JoplinItem[] = [];
+
+export default function ItemList({
+  items,
+  loading,
+  error,
+  onRefresh,
+  totalCount,
+  loadedCount,
+  onLoadItems,
+  onLoadRemaining,
+  onItemsUpdated,
+  onItemsDeleted,
+}: Props) {
   const [selectedItem, setSelectedItem] = useState<Item | null>(null);
-  const [itemDetail, setItemDetail] = useState<Item | null>(null);
+  const [selectedAnchor, setSelectedAnchor] = useState<string | undefined>(undefined);
+  const [fetchedDetail, setFetchedDetail] = useState<Item | null>(null);
   const [loadingDetail, setLoadingDetail] = useState(false);
   const [detailError, setDetailError] = useState<string | null>(null);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [activeTagId, setActiveTagId] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [detailTab, setDetailTab] = useState<"content" | "history">("content");
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [sidebarView, setSidebarView] = useState<"notebooks" | "agenda" | "conflicts">(
+    "notebooks"
+  );
+  const [pendingTodoIds, setPendingTodoIds] = useState<Set<string>>(new Set());
+  const [todoError, setTodoError] = useState<string | null>(null);
+  const history = useNavigationHistory();
+  const treeContainerRef = useRef<HTMLDivElement>(null);
 
   // Filter out revisions and unknown types
   const validItems = useMemo(() => {
@@ -42,6 +94,9 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
       
       // Filter out revisions (type 13)
       if (item.type_ === ITEM_TYPES.REVISION) return false;
+
+      // Items in the trash are only shown by the desktop client
+      if ((item as JoplinItem).deleted_time) return false;
       
       // Only show notes, folders, resources, and tags
       const validTypes: number[] = [ITEM_TYPES.NOTE, ITEM_TYPES.FOLDER, ITEM_TYPES.RESOURCE, ITEM_TYPES.TAG];
@@ -52,10 +107,27 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
     return filtered;
   }, [items]);
 
+  const libraryIncomplete =
+    totalCount !== undefined && loadedCount !== undefined && loadedCount < totalCount;
+
+  // Join note_tag link items with their tags
+  const tagIndex = useMemo(() => buildTagIndex(items), [items]);
+
+  // Revisions are hidden from the tree but listed in the History tab of their note
+  const revisionsByNote = useMemo(() => groupRevisionsByNote(items), [items]);
+
+  // Conflict copies of notes with the note they conflict with
+  const conflicts = useMemo(() => findConflicts(items), [items]);
+
   // Build folder tree structure
   const folderTree = useMemo(() => {
     const folders = validItems.filter((item) => item.type_ === ITEM_TYPES.FOLDER);
-    const notes = validItems.filter((item) => item.type_ === ITEM_TYPES.NOTE);
+    const taggedNoteIds = activeTagId ? tagIndex.notesByTag.get(activeTagId) : null;
+    const notes = validItems.filter(
+      (item) =>
+        item.type_ === ITEM_TYPES.NOTE &&
+        (!activeTagId || !!taggedNoteIds?.has(item.id))
+    );
     
     // Create a map of folder ID to TreeNode
     const folderMap = new Map<string, TreeNode>();
@@ -108,13 +180,28 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
       return (a.item.title || "").localeCompare(b.item.title || "");
     });
 
-    return rootNodes;
-  }, [validItems]);
+    if (!activeTagId) return rootNodes;
+
+    // When filtering by tag, drop folders that don't lead to a matching note
+    const prune = (nodes: TreeNode[]): TreeNode[] =>
+      nodes
+        .map((node) => ({ ...node, children: prune(node.children) }))
+        .filter((node) => node.item.type_ === ITEM_TYPES.NOTE || node.children.length > 0);
+
+    return prune(rootNodes);
+  }, [validItems, activeTagId, tagIndex]);
 
-  // Fetch item details when selected
+  // Loaded (or cached) copy of the selected item, kept fresh by background loads and refreshes
+  const loadedDetail = useMemo(
+    () => (selectedItem ? items.find((item) => item.id === selectedItem.id) ?? null : null),
+    [items, selectedItem]
+  );
+
+  // Fetch item details when selected and not loaded yet
   useEffect(() => {
-    if (!selectedItem) {
-      setItemDetail(null);
+    if (!selectedItem || loadedDetail) {
+      setFetchedDetail(null);
+      setDetailError(null);
       return;
     }
 
@@ -123,7 +210,7 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
       setDetailError(null);
       try {
         const detail = await joplinApi.getItem(selectedItem.id);
-        setItemDetail(detail);
+        setFetchedDetail(detail);
       } catch (err) {
         const errorMsg =
           err instanceof Error ? err.message : "Failed to load item details";
@@ -135,9 +222,185 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
     };
 
     fetchItemDetail();
-  }, [selectedItem]);
+  }, [selectedItem, loadedDetail]);
+
+  const itemDetail = loadedDetail ?? fetchedDetail;
+  const isEditing = !!itemDetail && editingNoteId === itemDetail.id;
+  const canWrite = !!onItemsUpdated && !!onItemsDeleted;
+  // Items that are still encrypted can't be changed without their master key
+  const canEditDetail = canWrite && !(itemDetail as JoplinItem | null)?.encryption_applied;
+  const detailConflict =
+    itemDetail && itemDetail.type_ === ITEM_TYPES.NOTE && (itemDetail as JoplinItem).is_conflict
+      ? conflicts.find((pair) => pair.conflict.id === itemDetail.id) ?? {
+          conflict: itemDetail,
+          original: null,
+        }
+      : null;
+
+  // Keep the selected row visible when it was selected from a link or the history
+  useEffect(() => {
+    if (!selectedItem) return;
+    const row = treeContainerRef.current?.querySelector(
+      `[data-item-id="${selectedItem.id}"]`
+    );
+    row?.scrollIntoView({ block: "nearest" });
+  }, [selectedItem, expandedFolders]);
+
+  const selectItem = (item: Item, anchor?: string) => {
+    setLinkError(null);
+    setDetailTab("content");
+    setSelectedItem(item);
+    setSelectedAnchor(anchor);
+    history.push({ noteId: item.id, anchor });
+  };
+
+  /**
+   * Find an item in the loaded list, or fetch it (and its missing parent folders)
+   * from the sync target and report them to the parent so they join the tree
+   */
+  const resolveItem = async (id: string): Promise<Item | null> => {
+    const byId = new Map(validItems.map((item) => [item.id, item]));
+    const fetchItem = async (itemId: string): Promise<Item | null> => {
+      if (onLoadItems) {
+        const [fetched] = await onLoadItems([itemId]);
+        return fetched || null;
+      }
+      return joplinApi.getItem(itemId);
+    };
+
+    const target = byId.get(id) || (await fetchItem(id));
+    if (!target) return null;
+
+    // Walk up the parent chain so the target can be revealed in the tree
+    const ancestors: string[] = [];
+    let parentId = target.parent_id;
+    while (parentId && !ancestors.includes(parentId)) {
+      ancestors.push(parentId);
+      const parent = byId.get(parentId) || (await fetchItem(parentId));
+      if (!parent) break;
+      parentId = parent.parent_id;
+    }
+
+    setExpandedFolders((prev) => new Set([...prev, ...ancestors]));
+    return target;
+  };
+
+  const showHistoryEntry = async (entry: HistoryEntry | null) => {
+    if (!entry) return;
+    const item = await resolveItem(entry.noteId);
+    if (item) {
+      setSelectedItem(item);
+      setSelectedAnchor(entry.anchor);
+    }
+  };
+
+  const navigateToNote = async (noteId: string, anchor?: string) => {
+    setLinkError(null);
+    if (noteId === selectedItem?.id) {
+      setSelectedAnchor(anchor);
+      history.push({ noteId, anchor });
+      return;
+    }
+
+    const item = await resolveItem(noteId);
+    if (!item) {
+      setLinkError(`Linked note ${noteId} was not found on the sync target`);
+      return;
+    }
+    selectItem(item, anchor);
+  };
+
+  const handleItemsUpdated = (updated: Item[]) => {
+    onItemsUpdated?.(updated);
+    const trashed = updated.find((item) => (item as JoplinItem).deleted_time);
+    if (trashed && trashed.id === selectedItem?.id) setSelectedItem(null);
+  };
+
+  const handleItemsDeleted = (ids: string[]) => {
+    onItemsDeleted?.(ids);
+    if (selectedItem && ids.includes(selectedItem.id)) setSelectedItem(null);
+  };
+
+  /**
+   * Show a newly created note in the editor, or reveal a new notebook in the tree
+   */
+  const handleCreated = (item: Item) => {
+    onItemsUpdated?.([item]);
+    if (item.parent_id) {
+      setExpandedFolders((prev) => new Set([...prev, item.parent_id]));
+    }
+    selectItem(item);
+    if (item.type_ === ITEM_TYPES.NOTE) setEditingNoteId(item.id);
+  };
+
+  /**
+   * Tick or untick a to-do and write the completion time to the sync target
+   */
+  const toggleTodo = async (todo: Item) => {
+    setTodoError(null);
+    setPendingTodoIds((prev) => new Set(prev).add(todo.id));
+    try {
+      const result = await setTodoCompleted(todo, !isTodoCompleted(todo));
+      if (result.status === "saved") {
+        handleItemsUpdated([result.item]);
+      } else if (result.status === "conflict") {
+        handleItemsUpdated([result.remote]);
+        setTodoError(`"${todo.title || "(Untitled)"}" was changed on the sync target in the meantime, try again`);
+      } else {
+        handleItemsDeleted([todo.id]);
+        setTodoError(`"${todo.title || "(Untitled)"}" was deleted on the sync target`);
+      }
+    } catch (err) {
+      setTodoError(err instanceof Error ? err.message : "Failed to update the to-do");
+      console.error("Error updating to-do:", err);
+    } finally {
+      setPendingTodoIds((prev) => {
+        const next = new Set(prev);
+        next.delete(todo.id);
+        return next;
+      });
+    }
+  };
+
+  /**
+   * Checkbox shown in place of the note icon for to-dos
+   */
+  const renderTodoCheckbox = (todo: Item) => (
+    <input
+      type="checkbox"
+      className="todo-checkbox"
+      checked={isTodoCompleted(todo)}
+      disabled={!canWrite || pendingTodoIds.has(todo.id)}
+      onClick={(e) => e.stopPropagation()}
+      onChange={() => toggleTodo(todo)}
+      title={isTodoCompleted(todo) ? "Mark as not done" : "Mark as done"}
+    />
+  );
+
+  const showSidebarView = (view: "agenda" | "conflicts") => {
+    // To-dos and conflict copies can be anywhere, load them all
+    if (libraryIncomplete) onLoadRemaining?.();
+    setSidebarView(view);
+  };
+
+  const showHistoryTab = () => {
+    // Revisions are only known once loaded, don't wait for the background pace
+    if (libraryIncomplete) onLoadRemaining?.();
+    setDetailTab("history");
+  };
 
   const toggleFolder = (folderId: string) => {
+    // Children of a folder may not be loaded yet, fetch them without waiting for the background pace
+    if (!expandedFolders.has(folderId) && libraryIncomplete) {
+      // Children known from the cache come first, they may have changed since.
+      // Ones added since are only found by loading the rest.
+      const childIds = items.filter((item) => item?.parent_id === folderId).map((item) => item.id);
+      if (childIds.length > 0) {
+        onLoadItems?.(childIds).catch((err) => console.error("Failed to load folder contents:", err));
+      }
+      onLoadRemaining?.();
+    }
+
     setExpandedFolders((prev) => {
       const next = new Set(prev);
       if (next.has(folderId)) {
@@ -164,6 +427,12 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
     }
   };
 
+  const getItemTitle = (item: Item): string => {
+    // Encrypted items only expose their title once the master key is unlocked
+    if ((item as JoplinItem).encryption_applied) return "🔒 Encrypted";
+    return item.title || "(Untitled)";
+  };
+
   const getItemTypeLabel = (type: number): string => {
     switch (type) {
       case ITEM_TYPES.NOTE:
@@ -179,6 +448,29 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
     }
   };
 
+  const renderTagChips = (noteId: string, compact: boolean = false) => {
+    const noteTags = tagIndex.tagsByNote.get(noteId);
+    if (!noteTags || noteTags.length === 0) return null;
+
+    return (
+      <span className={`tag-chips ${compact ? "compact" : ""}`}>
+        {noteTags.map((tag) => (
+          <span
+            key={tag.id}
+            className={`tag-chip ${tag.id === activeTagId ? "active" : ""}`}
+            title={`Show notes tagged "${tag.title}"`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setActiveTagId(tag.id);
+            }}
+          >
+            {tag.title}
+          </span>
+        ))}
+      </span>
+    );
+  };
+
   const formatDate = (timestamp?: number): string => {
     if (!timestamp) return "N/A";
     return new Date(timestamp).toLocaleString();
@@ -186,18 +478,25 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
 
   const renderTreeNode = (node: TreeNode, depth: number = 0) => {
     const isFolder = node.item.type_ === ITEM_TYPES.FOLDER;
-    const isExpanded = expandedFolders.has(node.item.id);
+    // Tag filtering only keeps folders with matches, so show them all open
+    const isExpanded = expandedFolders.has(node.item.id) || !!activeTagId;
     const hasChildren = node.children.length > 0;
+    // While the library is still loading any folder may have children that aren't known yet
+    const canExpand = hasChildren || libraryIncomplete;
     const isSelected = selectedItem?.id === node.item.id;
+    const showTodo = isTodo(node.item) && !(node.item as JoplinItem).encryption_applied;
 
     return (
       <div key={node.item.id} className="tree-node">
         <div
-          className={`tree-item ${isSelected ? "selected" : ""} ${isFolder ? "folder" : "note"}`}
+          className={`tree-item ${isSelected ? "selected" : ""} ${isFolder ? "folder" : "note"} ${
+            showTodo && isTodoCompleted(node.item) ? "completed" : ""
+          }`}
           style={{ paddingLeft: `${depth * 1.5 + 1}rem` }}
-          onClick={() => setSelectedItem(node.item)}
+          data-item-id={node.item.id}
+          onClick={() => selectItem(node.item)}
         >
-          {isFolder && hasChildren && (
+          {isFolder && canExpand && (
             <button
               className="expand-btn"
               onClick={(e) => {
@@ -208,16 +507,29 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
               <span className={`arrow ${isExpanded ? "expanded" : ""}`}>▶</span>
             </button>
           )}
-          {isFolder && !hasChildren && <span className="expand-placeholder" />}
-          <span className="item-icon">{getItemIcon(node.item.type_)}</span>
-          <span className="item-title">{node.item.title || "(Untitled)"}</span>
+          {isFolder && !canExpand && <span className="expand-placeholder" />}
+          {showTodo ? (
+            renderTodoCheckbox(node.item)
+          ) : (
+            <span className="item-icon">{getItemIcon(node.item.type_)}</span>
+          )}
+          <span className="item-title">{getItemTitle(node.item)}</span>
+          {!isFolder && renderTagChips(node.item.id, true)}
           {isFolder && hasChildren && (
             <span className="item-count">({node.children.length})</span>
           )}
         </div>
-        {isFolder && isExpanded && hasChildren && (
+        {isFolder && isExpanded && canExpand && (
           <div className="tree-children">
             {node.children.map((child) => renderTreeNode(child, depth + 1))}
+            {libraryIncomplete && (
+              <div
+                className="tree-loading-row"
+                style={{ paddingLeft: `${(depth + 1) * 1.5 + 1}rem` }}
+              >
+                Loading more items…
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -265,7 +577,9 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
             <h2>Library</h2>
             {totalCount !== undefined && (
               <div className="item-count-badge">
-                Showing {validItems.length} of {totalCount}
+                {libraryIncomplete
+                  ? `Loading ${loadedCount} of ${totalCount} items…`
+                  : `Loaded ${loadedCount ?? validItems.length} of ${totalCount}`}
               </div>
             )}
           </div>
@@ -274,6 +588,19 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
           </button>
         </div>
 
+        {canWrite && (
+          <div className="sidebar-actions">
+            <ItemActions
+              item={null}
+              items={items}
+              libraryIncomplete={libraryIncomplete}
+              onItemsUpdated={handleItemsUpdated}
+              onItemsDeleted={handleItemsDeleted}
+              onCreated={handleCreated}
+            />
+          </div>
+        )}
+
         <div className="stats-grid">
           <div className="stat-card">
             <span className="stat-value">{stats.folders}</span>
@@ -293,10 +620,110 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
           </div>
         </div>
 
-        <div className="tree-container">
-          {folderTree.length === 0 ? (
+        {tagIndex.tags.length > 0 && (
+          <div className="tags-section">
+            <div className="tags-section-header">
+              <h3>Tags</h3>
+              {activeTagId && (
+                <button className="clear-filter-btn" onClick={() => setActiveTagId(null)}>
+                  Clear filter
+                </button>
+              )}
+            </div>
+            <div className="tags-list">
+              {tagIndex.tags.map((tag) => (
+                <button
+                  key={tag.id}
+                  className={`tag-list-item ${tag.id === activeTagId ? "active" : ""}`}
+                  onClick={() => setActiveTagId(tag.id === activeTagId ? null : tag.id)}
+                >
+                  <span className="item-icon">🏷️</span>
+                  <span className="item-title">{tag.title || "(Untitled)"}</span>
+                  <span className="item-count">{tagIndex.notesByTag.get(tag.id)?.size || 0}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="sidebar-tabs">
+          <button
+            className={`detail-tab ${sidebarView === "notebooks" ? "active" : ""}`}
+            onClick={() => setSidebarView("notebooks")}
+          >
+            Notebooks
+          </button>
+          <button
+            className={`detail-tab ${sidebarView === "agenda" ? "active" : ""}`}
+            onClick={() => showSidebarView("agenda")}
+          >
+            Agenda
+          </button>
+          {(conflicts.length > 0 || sidebarView === "conflicts") && (
+            <button
+              className={`detail-tab ${sidebarView === "conflicts" ? "active" : ""}`}
+              onClick={() => showSidebarView("conflicts")}
+            >
+              Conflicts ({conflicts.length})
+            </button>
+          )}
+        </div>
+
+        {todoError && <p className="todo-error">{todoError}</p>}
+
+        <div className="search-box">
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search notes..."
+            className="search-input"
+          />
+        </div>
+
+        <div className="tree-container" ref={treeContainerRef}>
+          {searchQuery.trim() ? (
+            <SearchResults
+              query={searchQuery}
+              onSelect={(noteId) => navigateToNote(noteId)}
+              selectedId={selectedItem?.id}
+            />
+          ) : sidebarView === "agenda" ? (
+            <Agenda
+              items={items}
+              onSelect={(todo) => selectItem(todo)}
+              selectedId={selectedItem?.id}
+              onToggle={canWrite ? toggleTodo : undefined}
+              pendingIds={pendingTodoIds}
+              libraryIncomplete={libraryIncomplete}
+            />
+          ) : sidebarView === "conflicts" ? (
+            conflicts.length === 0 ? (
+              <div className="empty-state">
+                <p>{libraryIncomplete ? "Looking for conflicts…" : "No conflicts"}</p>
+              </div>
+            ) : (
+              conflicts.map(({ conflict, original }) => (
+                <div
+                  key={conflict.id}
+                  className={`conflict-list-item ${conflict.id === selectedItem?.id ? "selected" : ""}`}
+                  onClick={() => selectItem(conflict)}
+                >
+                  <div className="conflict-list-title">
+                    <span className="item-icon">⚠️</span>
+                    <span className="item-title">{getItemTitle(conflict)}</span>
+                  </div>
+                  <div className="conflict-list-original">
+                    {original
+                      ? `Conflicts with "${getItemTitle(original)}"`
+                      : "Original note not found"}
+                  </div>
+                </div>
+              ))
+            )
+          ) : folderTree.length === 0 ? (
             <div className="empty-state">
-              <p>No items found</p>
+              <p>{activeTagId ? "No loaded notes have this tag" : "No items found"}</p>
             </div>
           ) : (
             folderTree.map((node) => renderTreeNode(node))
@@ -322,14 +749,61 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
           </div>
         ) : itemDetail ? (
           <div className="detail-content">
+            <div className="detail-nav">
+              <button
+                className="nav-btn"
+                onClick={() => showHistoryEntry(history.back())}
+                disabled={!history.canGoBack}
+                title="Back"
+              >
+                ← Back
+              </button>
+              <button
+                className="nav-btn"
+                onClick={() => showHistoryEntry(history.forward())}
+                disabled={!history.canGoForward}
+                title="Forward"
+              >
+                Forward →
+              </button>
+              {linkError && <span className="nav-error">{linkError}</span>}
+            </div>
+
             <div className="detail-header">
               <h2 className="detail-title">
-                <span className="detail-icon">{getItemIcon(itemDetail.type_)}</span>
-                {itemDetail.title || "(Untitled)"}
+                {isTodo(itemDetail) && !(itemDetail as JoplinItem).encryption_applied ? (
+                  renderTodoCheckbox(itemDetail)
+                ) : (
+                  <span className="detail-icon">{getItemIcon(itemDetail.type_)}</span>
+                )}
+                {getItemTitle(itemDetail)}
               </h2>
-              <span className="detail-type">{getItemTypeLabel(itemDetail.type_)}</span>
+              <div className="detail-actions">
+                {itemDetail.type_ === ITEM_TYPES.NOTE && canEditDetail && !isEditing && (
+                  <button className="nav-btn" onClick={() => setEditingNoteId(itemDetail.id)}>
+                    ✎ Edit
+                  </button>
+                )}
+                <span className="detail-type">{getItemTypeLabel(itemDetail.type_)}</span>
+              </div>
             </div>
 
+            {itemDetail.type_ === ITEM_TYPES.NOTE && renderTagChips(itemDetail.id)}
+
+            {canEditDetail &&
+              !isEditing &&
+              (itemDetail.type_ === ITEM_TYPES.NOTE || itemDetail.type_ === ITEM_TYPES.FOLDER) && (
+                <ItemActions
+                  key={itemDetail.id}
+                  item={itemDetail}
+                  items={items}
+                  libraryIncomplete={libraryIncomplete}
+                  onItemsUpdated={handleItemsUpdated}
+                  onItemsDeleted={handleItemsDeleted}
+                  onCreated={handleCreated}
+                />
+              )}
+
             <div className="detail-metadata">
               <div className="metadata-row">
                 <span className="metadata-label">ID</span>
@@ -349,15 +823,92 @@ export default function ItemList({ items, loading, error, onRefresh, totalCount
                 <span className="metadata-label">Updated</span>
                 <span className="metadata-value">{formatDate(itemDetail.updated_time)}</span>
               </div>
+              {isTodo(itemDetail) && (
+                <>
+                  <div className="metadata-row">
+                    <span className="metadata-label">Due</span>
+                    <span className="metadata-value">
+                      {formatDate((itemDetail as JoplinItem).todo_due)}
+                    </span>
+                  </div>
+                  <div className="metadata-row">
+                    <span className="metadata-label">Completed</span>
+                    <span className="metadata-value">
+                      {formatDate((itemDetail as JoplinItem).todo_completed)}
+                    </span>
+                  </div>
+                </>
+              )}
             </div>
 
-            {itemDetail.body && (
+            {isEditing && onItemsUpdated ? (
+              <NoteEditor
+                key={itemDetail.id}
+                note={itemDetail}
+                onItemsUpdated={onItemsUpdated}
+                onClose={() => setEditingNoteId(null)}
+              />
+            ) : detailConflict ? (
               <div className="detail-body">
-                <h3 className="section-title">Content</h3>
-                <div className="content-preview">
-                  {itemDetail.body}
-                </div>
+                <ConflictResolver
+                  key={itemDetail.id}
+                  pair={detailConflict}
+                  items={items}
+                  loadingOriginal={
+                    !detailConflict.original &&
+                    !!(itemDetail as JoplinItem).conflict_original_id &&
+                    libraryIncomplete
+                  }
+                  libraryIncomplete={libraryIncomplete}
+                  onItemsUpdated={canWrite ? handleItemsUpdated : undefined}
+                  onItemsDeleted={canWrite ? handleItemsDeleted : undefined}
+                  onResolved={(note) => note && selectItem(note)}
+                />
               </div>
+            ) : (
+              <>
+                {itemDetail.type_ === ITEM_TYPES.NOTE && (
+                  <div className="detail-tabs">
+                    <button
+                      className={`detail-tab ${detailTab === "content" ? "active" : ""}`}
+                      onClick={() => setDetailTab("content")}
+                    >
+                      Content
+                    </button>
+                    <button
+                      className={`detail-tab ${detailTab === "history" ? "active" : ""}`}
+                      onClick={showHistoryTab}
+                    >
+                      History ({revisionsByNote.get(itemDetail.id)?.length || 0})
+                    </button>
+                  </div>
+                )}
+
+                {itemDetail.type_ === ITEM_TYPES.NOTE && detailTab === "history" ? (
+                  <div className="detail-body">
+                    <RevisionHistory
+                      key={itemDetail.id}
+                      note={itemDetail}
+                      revisions={revisionsByNote.get(itemDetail.id) || NO_REVISIONS}
+                      loadingRevisions={libraryIncomplete}
+                    />
+                  </div>
+                ) : (
+                  itemDetail.body && (
+                    <div className="detail-body">
+                      {itemDetail.type_ !== ITEM_TYPES.NOTE && (
+                        <h3 className="section-title">Content</h3>
+                      )}
+                      <NoteBody
+                        body={itemDetail.body}
+                        markupLanguage={(itemDetail as JoplinItem).markup_language}
+                        anchor={selectedAnchor}
+                        onNoteLinkClick={navigateToNote}
+                      />
+                    </div>
+                  )
+                )}
+              </>
             )}
 
             {itemDetail.type_ === ITEM_TYPES.RESOURCE && (
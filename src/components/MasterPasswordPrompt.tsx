@@ -0,0 +1,68 @@
+import { useState } from "react";
+import "./MasterPasswordPrompt.css";
+
+interface Props {
+  // Number of master keys that are still locked
+  lockedCount: number;
+  // Rejects when the password doesn't unlock any key
+  onUnlock: (password: string) => Promise<void>;
+  onSkip: () => void;
+}
+
+export default function MasterPasswordPrompt({ lockedCount, onUnlock, onSkip }: Props) {
+  const [password, setPassword] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(password);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlock master key");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="master-password-overlay">
+      <form className="master-password-modal" onSubmit={handleSubmit}>
+        <h2>🔒 Encrypted notes</h2>
+        <p className="master-password-description">
+          This sync target uses end-to-end encryption
+          {lockedCount > 1 ? ` with ${lockedCount} master keys` : ""}. Enter your master
+          password to decrypt it in this browser. The password and the unlocked keys are
+          only kept in memory until you log out or close the page.
+        </p>
+
+        <input
+          type="password"
+          className="master-password-input"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Master password"
+          autoComplete="current-password"
+          autoFocus
+        />
+
+        {error && <p className="master-password-error">{error}</p>}
+
+        <div className="master-password-actions">
+          <button type="button" className="master-password-skip" onClick={onSkip}>
+            Browse without decrypting
+          </button>
+          <button
+            type="submit"
+            className="master-password-submit"
+            disabled={unlocking || !password}
+          >
+            {unlocking ? "Unlocking..." : "Unlock"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useEffect, useMemo, useRef } from "react";
+import { joplinApi } from "../services/joplinApi";
+import { renderNoteBody } from "../services/markdownRenderer";
+import { useNoteResources } from "../hooks/useNoteResources";
+import "./NoteBody.css";
+
+interface Props {
+  body: string;
+  markupLanguage?: number;
+  // Heading or element id to scroll to once rendered
+  anchor?: string;
+  onNoteLinkClick?: (noteId: string, anchor?: string) => void;
+}
+
+export default function NoteBody({ body, markupLanguage, anchor, onNoteLinkClick }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const resources = useNoteResources(body);
+
+  // Rendered output is sanitized by renderNoteBody before it reaches the DOM
+  const html = useMemo(
+    () => renderNoteBody(body, markupLanguage, resources),
+    [body, markupLanguage, resources]
+  );
+
+  const scrollToAnchor = (id: string) => {
+    const target = containerRef.current?.querySelector(`[id="${CSS.escape(id)}"]`);
+    target?.scrollIntoView({ behavior: "smooth", block: "start" });
+  };
+
+  useEffect(() => {
+    if (anchor) scrollToAnchor(anchor);
+  }, [anchor, html]);
+
+  const downloadResource = async (resourceId: string) => {
+    const resource = resources.get(resourceId);
+    if (!resource) return;
+
+    try {
+      const blob = await joplinApi.getResourceBlob(resource.item);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = resource.title;
+      link.click();
+      // The download starts after the click returns
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err) {
+      console.error("Error downloading resource:", err);
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const link = (e.target as HTMLElement).closest("a");
+    if (!link) return;
+
+    const resourceId = link.getAttribute("data-resource-id");
+    if (resourceId) {
+      e.preventDefault();
+      downloadResource(resourceId);
+      return;
+    }
+
+    const noteId = link.getAttribute("data-note-id");
+    if (noteId) {
+      e.preventDefault();
+      onNoteLinkClick?.(noteId, link.getAttribute("data-anchor") || undefined);
+      return;
+    }
+
+    // Same-note anchors (headings, footnotes) scroll the panel instead of changing the URL
+    const href = link.getAttribute("href") || "";
+    if (href.startsWith("#") && href.length > 1) {
+      e.preventDefault();
+      scrollToAnchor(decodeURIComponent(href.slice(1)));
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="note-body"
+      onClick={handleClick}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
@@ -0,0 +1,201 @@
+import { useDeferredValue, useEffect, useRef, useState } from "react";
+import type { Item } from "joplin-sync";
+import { joplinApi } from "../services/joplinApi";
+import type { JoplinItem } from "../types/joplinItems";
+import NoteBody from "./NoteBody";
+import "./NoteEditor.css";
+
+interface Props {
+  note: Item;
+  // Called with the uploaded note, or with the remote copy when reloading after a conflict
+  onItemsUpdated: (items: Item[]) => void;
+  onClose: () => void;
+}
+
+type SaveProblem =
+  | { kind: "conflict"; remote: Item }
+  | { kind: "deleted" }
+  | { kind: "error"; message: string };
+
+/**
+ * Markdown editor with a live preview. Saves are refused when the note
+ * changed on the sync target since editing started.
+ */
+export default function NoteEditor({ note, onItemsUpdated, onClose }: Props) {
+  // Note as it was when editing started, used to detect remote changes
+  const [base, setBase] = useState<Item>(note);
+  const [title, setTitle] = useState<string>(note.title || "");
+  const [body, setBody] = useState<string>(note.body || "");
+  const [saving, setSaving] = useState(false);
+  const [problem, setProblem] = useState<SaveProblem | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Keep typing responsive while the preview renders
+  const previewBody = useDeferredValue(body);
+
+  const dirty = title !== (base.title || "") || body !== (base.body || "");
+
+  useEffect(() => {
+    if (!dirty) return;
+    const warnBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener("beforeunload", warnBeforeUnload);
+    return () => window.removeEventListener("beforeunload", warnBeforeUnload);
+  }, [dirty]);
+
+  const save = async () => {
+    if (saving || !dirty) return;
+    setSaving(true);
+    setProblem(null);
+    try {
+      const result = await joplinApi.saveItem(base, { title, body });
+      if (result.status === "saved") {
+        onItemsUpdated([result.item]);
+        onClose();
+      } else if (result.status === "conflict") {
+        setProblem({ kind: "conflict", remote: result.remote });
+      } else {
+        setProblem({ kind: "deleted" });
+      }
+    } catch (err) {
+      setProblem({
+        kind: "error",
+        message: err instanceof Error ? err.message : "Failed to save note",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancel = () => {
+    if (dirty && !window.confirm("Discard your unsaved changes?")) return;
+    onClose();
+  };
+
+  const loadRemote = (remote: Item) => {
+    if (dirty && !window.confirm("Replace your changes with the version from the sync target?")) {
+      return;
+    }
+    onItemsUpdated([remote]);
+    setBase(remote);
+    setTitle(remote.title || "");
+    setBody(remote.body || "");
+    setProblem(null);
+  };
+
+  /**
+   * Wrap the selection in Markdown markers, or insert them around a placeholder
+   */
+  const wrapSelection = (before: string, after: string = before, placeholder: string = "text") => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const selected = body.slice(start, end) || placeholder;
+    setBody(body.slice(0, start) + before + selected + after + body.slice(end));
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  };
+
+  const prefixLines = (prefix: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const { selectionStart: start, selectionEnd: end } = textarea;
+    const lineStart = body.lastIndexOf("\n", start - 1) + 1;
+    const lines = body.slice(lineStart, end).split("\n").map((line) => prefix + line);
+    setBody(body.slice(0, lineStart) + lines.join("\n") + body.slice(end));
+    requestAnimationFrame(() => textarea.focus());
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if ((e.ctrlKey || e.metaKey) && e.key === "s") {
+      e.preventDefault();
+      save();
+    }
+  };
+
+  return (
+    <div className="note-editor" onKeyDown={handleKeyDown}>
+      <div className="editor-toolbar">
+        <div className="editor-format-buttons">
+          <button onClick={() => wrapSelection("**")} title="Bold">
+            <strong>B</strong>
+          </button>
+          <button onClick={() => wrapSelection("*")} title="Italic">
+            <em>I</em>
+          </button>
+          <button onClick={() => wrapSelection("`", "`", "code")} title="Code">
+            {"</>"}
+          </button>
+          <button onClick={() => wrapSelection("[", "](https://)", "link")} title="Link">
+            🔗
+          </button>
+          <button onClick={() => prefixLines("## ")} title="Heading">
+            H
+          </button>
+          <button onClick={() => prefixLines("- ")} title="Bulleted list">
+            •
+          </button>
+          <button onClick={() => prefixLines("- [ ] ")} title="Checklist">
+            ☑
+          </button>
+        </div>
+
+        <div className="editor-actions">
+          {dirty && <span className="editor-status">Unsaved changes</span>}
+          <button className="editor-cancel-btn" onClick={cancel} disabled={saving}>
+            Cancel
+          </button>
+          <button className="editor-save-btn" onClick={save} disabled={saving || !dirty}>
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+
+      {problem && (
+        <div className="editor-problem">
+          {problem.kind === "conflict" ? (
+            <>
+              <p>
+                This note was changed on the sync target on{" "}
+                {new Date(problem.remote.updated_time).toLocaleString()}, after you started
+                editing. Your changes were not saved, copy them before loading the other
+                version.
+              </p>
+              <button onClick={() => loadRemote(problem.remote)}>Load remote version</button>
+            </>
+          ) : problem.kind === "deleted" ? (
+            <p>This note was deleted on the sync target. Your changes were not saved.</p>
+          ) : (
+            <p>Error: {problem.message}</p>
+          )}
+        </div>
+      )}
+
+      <input
+        className="editor-title"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Title"
+      />
+
+      <div className="editor-panes">
+        <textarea
+          ref={textareaRef}
+          className="editor-textarea"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          spellCheck
+        />
+        <div className="editor-preview">
+          <NoteBody
+            body={previewBody}
+            markupLanguage={(note as JoplinItem).markup_language}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import type { ProfileExportOptions } from "../services/profileManager";
+import "./MasterPasswordPrompt.css";
+
+interface Props {
+  // Rejects when the profiles couldn't be exported
+  onExport: (options: ProfileExportOptions) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function ProfileExportDialog({ onExport, onCancel }: Props) {
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mismatch = confirmation !== "" && confirmation !== passphrase;
+  // Passwords and tokens never leave the browser in plain text
+  const passphraseMissing = includeSecrets && !passphrase;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport({ includeSecrets, passphrase: passphrase || undefined });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export profiles");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="master-password-overlay">
+      <form className="master-password-modal" onSubmit={handleSubmit}>
+        <h2>Export profiles</h2>
+        <p className="master-password-description">
+          Saves the sync targets, usernames and app ids of your profiles to a file, to import them
+          in another browser. A passphrase encrypts the file; it is required to include passwords
+          and sign-in tokens.
+        </p>
+
+        <label className="master-password-option">
+          <input
+            type="checkbox"
+            checked={includeSecrets}
+            onChange={(e) => setIncludeSecrets(e.target.checked)}
+          />
+          Include passwords and sign-in tokens
+        </label>
+
+        <input
+          type="password"
+          className="master-password-input"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder={includeSecrets ? "Passphrase" : "Passphrase (optional)"}
+          autoComplete="new-password"
+        />
+        {passphrase && (
+          <input
+            type="password"
+            className="master-password-input"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+          />
+        )}
+
+        {mismatch && <p className="master-password-error">The passphrases don't match</p>}
+        {error && <p className="master-password-error">{error}</p>}
+
+        <div className="master-password-actions">
+          <button type="button" className="master-password-skip" onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="master-password-submit"
+            disabled={exporting || passphraseMissing || confirmation !== passphrase}
+          >
+            {exporting ? "Exporting..." : "Export"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import type { ProfileImportResult } from "../services/profileManager";
+import "./MasterPasswordPrompt.css";
+
+interface Props {
+  // Rejects when the file isn't a profile export or the passphrase is wrong
+  onImport: (bundle: string, passphrase: string) => Promise<ProfileImportResult>;
+  onClose: () => void;
+}
+
+export default function ProfileImportDialog({ onImport, onClose }: Props) {
+  const [file, setFile] = useState<File | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ProfileImportResult | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      setResult(await onImport(await file.text(), passphrase));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import profiles");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="master-password-overlay">
+        <div className="master-password-modal">
+          <h2>Import profiles</h2>
+          <p className="master-password-description">
+            {result.added} profile{result.added === 1 ? "" : "s"} added, {result.updated} updated.
+            {result.skipped.length > 0 && ` ${result.skipped.length} couldn't be read:`}
+          </p>
+          {result.skipped.map((reason) => (
+            <p key={reason} className="master-password-error">
+              {reason}
+            </p>
+          ))}
+          <div className="master-password-actions">
+            <button type="button" className="master-password-submit" onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="master-password-overlay">
+      <form className="master-password-modal" onSubmit={handleSubmit}>
+        <h2>Import profiles</h2>
+        <p className="master-password-description">
+          Add the profiles of a file exported from another browser. Profiles of a sync target you
+          already have update the saved one.
+        </p>
+
+        <label className="master-password-option">
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          />
+        </label>
+
+        <input
+          type="password"
+          className="master-password-input"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase, if the file is encrypted"
+          autoComplete="off"
+        />
+
+        {error && <p className="master-password-error">{error}</p>}
+
+        <div className="master-password-actions">
+          <button type="button" className="master-password-skip" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="master-password-submit" disabled={importing || !file}>
+            {importing ? "Importing..." : "Import"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
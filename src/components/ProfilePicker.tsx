@@ -0,0 +1,116 @@
+import { useState } from "react";
+import type { Profile } from "../services/profileManager";
+import "./ProfilePicker.css";
+
+interface Props {
+  profiles: Profile[];
+  // Profile the app is connected to, which can't be connected again
+  connectedProfileId: string | null;
+  busy: boolean;
+  onConnect: (profile: Profile) => void;
+  onRename: (profile: Profile, name: string) => void;
+  onEdit: (profile: Profile) => void;
+  onDelete: (profile: Profile) => void;
+}
+
+const formatLastUsed = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+export default function ProfilePicker({
+  profiles,
+  connectedProfileId,
+  busy,
+  onConnect,
+  onRename,
+  onEdit,
+  onDelete,
+}: Props) {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const startRename = (profile: Profile) => {
+    setRenamingId(profile.id);
+    setDraftName(profile.name);
+  };
+
+  const handleRename = (e: React.FormEvent, profile: Profile) => {
+    e.preventDefault();
+    const name = draftName.trim();
+    if (name && name !== profile.name) onRename(profile, name);
+    setRenamingId(null);
+  };
+
+  const handleDelete = (profile: Profile) => {
+    if (
+      window.confirm(
+        `Delete the profile "${profile.name}"? Its cached notes and any edits not uploaded yet are deleted too.`
+      )
+    ) {
+      onDelete(profile);
+    }
+  };
+
+  return (
+    <ul className="profile-list">
+      {profiles.map((profile) => {
+        const connected = profile.id === connectedProfileId;
+        return (
+          <li key={profile.id} className={`profile-item${connected ? " connected" : ""}`}>
+            <div className="profile-item-info">
+              {renamingId === profile.id ? (
+                <form className="profile-rename" onSubmit={(e) => handleRename(e, profile)}>
+                  <input
+                    className="profile-rename-input"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Escape" && setRenamingId(null)}
+                    aria-label="Profile name"
+                    autoFocus
+                  />
+                  <button type="submit" className="profile-action">
+                    Save
+                  </button>
+                </form>
+              ) : (
+                <span className="profile-item-name">{profile.name}</span>
+              )}
+              <span className="profile-item-meta">
+                <span className="profile-item-type">{profile.type}</span>
+                {connected
+                  ? "Connected"
+                  : profile.lastUsed
+                    ? `Last used ${formatLastUsed(profile.lastUsed)}`
+                    : "Never used"}
+              </span>
+            </div>
+
+            <div className="profile-item-actions">
+              <button
+                className="profile-action primary"
+                onClick={() => onConnect(profile)}
+                disabled={busy || connected}
+              >
+                {connectedProfileId ? "Switch" : "Connect"}
+              </button>
+              <button className="profile-action" onClick={() => startRename(profile)} disabled={busy}>
+                Rename
+              </button>
+              <button className="profile-action" onClick={() => onEdit(profile)} disabled={busy}>
+                Edit
+              </button>
+              <button className="profile-action danger" onClick={() => handleDelete(profile)} disabled={busy}>
+                Delete
+              </button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import "./MasterPasswordPrompt.css";
+
+interface Props {
+  // Choose a new passphrase rather than enter the existing one
+  creating: boolean;
+  // Rejects on a wrong passphrase or when the vault couldn't be set up
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+  // Forget the vault and the secrets it holds, for a forgotten passphrase
+  onReset?: () => void;
+}
+
+export default function ProfileVaultPrompt({ creating, onSubmit, onCancel, onReset }: Props) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const mismatch = creating && confirmation !== "" && confirmation !== passphrase;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlock saved profiles");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="master-password-overlay">
+      <form className="master-password-modal" onSubmit={handleSubmit}>
+        <h2>🔑 {creating ? "Protect saved profiles" : "Unlock saved profiles"}</h2>
+        <p className="master-password-description">
+          {creating
+            ? "Passwords and tokens of your saved profiles will be stored encrypted with this passphrase. You'll enter it once each time you open the app. It can't be recovered: if you forget it, you'll have to enter your credentials again."
+            : "The passwords and tokens of your saved profiles are encrypted. Enter your passphrase to use them during this session."}
+        </p>
+
+        <input
+          type="password"
+          className="master-password-input"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete={creating ? "new-password" : "current-password"}
+          autoFocus
+        />
+        {creating && (
+          <input
+            type="password"
+            className="master-password-input"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            autoComplete="new-password"
+          />
+        )}
+
+        {mismatch && <p className="master-password-error">The passphrases don't match</p>}
+        {error && <p className="master-password-error">{error}</p>}
+
+        <div className="master-password-actions">
+          {onReset && (
+            <button
+              type="button"
+              className="master-password-skip master-password-reset"
+              onClick={() => {
+                if (window.confirm("Forget the passwords and tokens of all saved profiles?")) onReset();
+              }}
+            >
+              Forgot passphrase
+            </button>
+          )}
+          <button type="button" className="master-password-skip" onClick={onCancel}>
+            {creating ? "Cancel" : "Not now"}
+          </button>
+          <button
+            type="submit"
+            className="master-password-submit"
+            disabled={submitting || !passphrase || (creating && confirmation !== passphrase)}
+          >
+            {submitting ? (creating ? "Encrypting..." : "Unlocking...") : creating ? "Protect" : "Unlock"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useMemo, useState } from "react";
+import type { Item } from "joplin-sync";
+import type { JoplinItem } from "../types/joplinItems";
+import { buildNoteVersions, diffLines, type DiffLine } from "../services/revisionHistory";
+import "./RevisionHistory.css";
+
+interface Props {
+  note: Item;
+  // Revisions of the note, sorted from oldest to newest
+  revisions: JoplinItem[];
+  // Revisions that aren't loaded yet may still show up
+  loadingRevisions?: boolean;
+}
+
+// Key of the current version of the note in the version list
+const CURRENT_KEY = "current";
+// Compare with an empty note, i.e. show the whole version as added
+const EMPTY_KEY = "empty";
+// Unchanged lines kept around every change in the diff
+const DIFF_CONTEXT = 3;
+
+type ViewMode = "text" | "diff";
+
+const versionKey = (revisionId: string | null) => revisionId ?? CURRENT_KEY;
+
+const formatDate = (timestamp: number): string =>
+  timestamp ? new Date(timestamp).toLocaleString() : "Unknown date";
+
+/**
+ * Collapse runs of unchanged lines that are far from any change
+ */
+const collapseUnchanged = (lines: DiffLine[]): (DiffLine | { skipped: number })[] => {
+  const keep = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.kind === "equal") return;
+    for (let j = Math.max(0, i - DIFF_CONTEXT); j <= Math.min(lines.length - 1, i + DIFF_CONTEXT); j++) {
+      keep[j] = true;
+    }
+  });
+
+  const rows: (DiffLine | { skipped: number })[] = [];
+  let skipped = 0;
+  lines.forEach((line, i) => {
+    if (keep[i]) {
+      if (skipped > 0) rows.push({ skipped });
+      skipped = 0;
+      rows.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) rows.push({ skipped });
+  return rows;
+};
+
+export default function RevisionHistory({ note, revisions, loadingRevisions }: Props) {
+  const versions = useMemo(() => buildNoteVersions(note, revisions), [note, revisions]);
+  const [selectedKey, setSelectedKey] = useState<string>(CURRENT_KEY);
+  // Version the selected one is compared with, defaults to the one before it
+  const [compareKey, setCompareKey] = useState<string | null>(null);
+  const [mode, setMode] = useState<ViewMode>("text");
+  const [copied, setCopied] = useState(false);
+
+  const selectedIndex = Math.max(
+    0,
+    versions.findIndex((version) => versionKey(version.revisionId) === selectedKey)
+  );
+  const selected = versions[selectedIndex];
+  const compareIndex =
+    compareKey === EMPTY_KEY
+      ? -1
+      : compareKey
+        ? versions.findIndex((version) => versionKey(version.revisionId) === compareKey)
+        : selectedIndex - 1;
+  const compared = compareIndex >= 0 ? versions[compareIndex] : null;
+
+  const diffRows = useMemo(
+    () => (mode === "diff" ? collapseUnchanged(diffLines(compared?.body || "", selected.body)) : []),
+    [mode, compared, selected]
+  );
+
+  const selectVersion = (key: string) => {
+    setSelectedKey(key);
+    setCompareKey(null);
+    setCopied(false);
+  };
+
+  const copyText = async () => {
+    try {
+      await navigator.clipboard.writeText(selected.body);
+      setCopied(true);
+    } catch (err) {
+      console.error("Error copying revision text:", err);
+    }
+  };
+
+  if (versions.length <= 1) {
+    return (
+      <div className="revision-history">
+        <p className="revision-empty">
+          {loadingRevisions
+            ? "Looking for revisions while the library loads…"
+            : "No revisions have been saved for this note"}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="revision-history">
+      {loadingRevisions && (
+        <p className="revision-hint">More revisions may appear while the library loads…</p>
+      )}
+
+      <div className="revision-layout">
+        <ul className="revision-list">
+          {versions
+            .map((version, index) => ({ version, index }))
+            .reverse()
+            .map(({ version, index }) => {
+              const key = versionKey(version.revisionId);
+              return (
+                <li key={key}>
+                  <button
+                    className={`revision-item ${key === selectedKey ? "selected" : ""}`}
+                    onClick={() => selectVersion(key)}
+                  >
+                    <span className="revision-date">
+                      {version.revisionId ? formatDate(version.updatedTime) : "Current version"}
+                    </span>
+                    <span className="revision-meta">
+                      {version.revisionId ? `Revision ${index + 1}` : formatDate(version.updatedTime)}
+                      {version.approximate && (
+                        <span
+                          className="revision-warning"
+                          title="Some changes of this revision could not be applied"
+                        >
+                          {" "}⚠
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+        </ul>
+
+        <div className="revision-view">
+          <div className="revision-toolbar">
+            <div className="revision-modes">
+              <button
+                className={`revision-mode-btn ${mode === "text" ? "active" : ""}`}
+                onClick={() => setMode("text")}
+              >
+                Text
+              </button>
+              <button
+                className={`revision-mode-btn ${mode === "diff" ? "active" : ""}`}
+                onClick={() => setMode("diff")}
+              >
+                Changes
+              </button>
+            </div>
+
+            {mode === "diff" && (
+              <label className="revision-compare">
+                Compare with
+                <select
+                  value={compared ? versionKey(compared.revisionId) : EMPTY_KEY}
+                  onChange={(e) => setCompareKey(e.target.value)}
+                >
+                  <option value={EMPTY_KEY}>(empty note)</option>
+                  {versions.map((version, index) =>
+                    index === selectedIndex ? null : (
+                      <option key={versionKey(version.revisionId)} value={versionKey(version.revisionId)}>
+                        {version.revisionId
+                          ? `Revision ${index + 1} · ${formatDate(version.updatedTime)}`
+                          : "Current version"}
+                      </option>
+                    )
+                  )}
+                </select>
+              </label>
+            )}
+
+            <button className="revision-copy-btn" onClick={copyText}>
+              {copied ? "Copied" : "Copy text"}
+            </button>
+          </div>
+
+          {selected.approximate && (
+            <p className="revision-hint">
+              Some changes could not be applied, this version may not match the original exactly.
+            </p>
+          )}
+
+          <h3 className="revision-title">
+            {compared && mode === "diff" && compared.title !== selected.title ? (
+              <>
+                <del>{compared.title || "(Untitled)"}</del> → <ins>{selected.title || "(Untitled)"}</ins>
+              </>
+            ) : (
+              selected.title || "(Untitled)"
+            )}
+          </h3>
+
+          {mode === "text" ? (
+            <pre className="revision-text">{selected.body}</pre>
+          ) : diffRows.length === 0 ? (
+            <p className="revision-empty">No changes to the note body</p>
+          ) : (
+            <div className="revision-diff">
+              {diffRows.map((row, i) =>
+                "skipped" in row ? (
+                  <div key={i} className="diff-line skipped">
+                    ⋯ {row.skipped} unchanged line{row.skipped === 1 ? "" : "s"}
+                  </div>
+                ) : (
+                  <div key={i} className={`diff-line ${row.kind}`}>
+                    <span className="diff-number">{row.oldNumber ?? ""}</span>
+                    <span className="diff-number">{row.newNumber ?? ""}</span>
+                    <span className="diff-sign">
+                      {row.kind === "insert" ? "+" : row.kind === "delete" ? "−" : " "}
+                    </span>
+                    <span className="diff-text">{row.text}</span>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useDeferredValue, useMemo, useSyncExternalStore } from "react";
+import { searchIndex, type HighlightSegment } from "../services/searchIndex";
+import "./SearchResults.css";
+
+interface Props {
+  query: string;
+  onSelect: (noteId: string) => void;
+  selectedId?: string;
+}
+
+const renderSegments = (segments: HighlightSegment[]) =>
+  segments.map((segment, i) =>
+    segment.match ? <mark key={i}>{segment.text}</mark> : <span key={i}>{segment.text}</span>
+  );
+
+export default function SearchResults({ query, onSelect, selectedId }: Props) {
+  const status = useSyncExternalStore(searchIndex.subscribe, () => searchIndex.getStatus());
+  // Keep typing responsive while results are computed
+  const deferredQuery = useDeferredValue(query);
+
+  // A new status snapshot comes with every indexed slice and re-runs the search
+  const results = useMemo(
+    () => (status.indexedCount > 0 ? searchIndex.search(deferredQuery) : []),
+    [deferredQuery, status]
+  );
+
+  return (
+    <div className="search-results">
+      <div className="search-status">
+        {results.length} result{results.length === 1 ? "" : "s"} · {status.indexedCount} notes indexed
+        {status.pendingCount > 0 && ` · indexing ${status.pendingCount}…`}
+      </div>
+
+      {results.length === 0 ? (
+        <div className="empty-state">
+          <p>No matching notes</p>
+        </div>
+      ) : (
+        results.map((result) => (
+          <div
+            key={result.item.id}
+            className={`search-result ${result.item.id === selectedId ? "selected" : ""}`}
+            onClick={() => onSelect(result.item.id)}
+          >
+            <div className="search-result-title">
+              <span className="item-icon">📄</span>
+              <span>{renderSegments(result.title)}</span>
+            </div>
+            <div className="search-result-snippet">{renderSegments(result.snippet)}</div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from "react";
+import "./MasterPasswordPrompt.css";
+
+interface Props {
+  // Sync path of the profile, named after its folder
+  syncPath: string;
+  // Rejects when access wasn't granted or the connection failed
+  onReopen: () => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function SyncFolderPrompt({ syncPath, onReopen, onCancel }: Props) {
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Runs from the click, so the browser is allowed to ask for access
+  const handleReopen = async () => {
+    setOpening(true);
+    setError(null);
+    try {
+      await onReopen();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open the sync folder");
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  return (
+    <div className="master-password-overlay">
+      <div className="master-password-modal">
+        <h2>📁 Reopen sync folder</h2>
+        <p className="master-password-description">
+          This profile syncs with the local folder <strong>{syncPath.replace(/^\//, "")}</strong>.
+          Your browser asks for permission again before the app can read it.
+        </p>
+
+        {error && <p className="master-password-error">{error}</p>}
+
+        <div className="master-password-actions">
+          <button type="button" className="master-password-skip" onClick={onCancel}>
+            Use another target
+          </button>
+          <button
+            type="button"
+            className="master-password-submit"
+            onClick={handleReopen}
+            disabled={opening}
+          >
+            {opening ? "Opening..." : "Open folder"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useCallback, useRef, useState } from "react";
+
+export interface HistoryEntry {
+  noteId: string;
+  anchor?: string;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+/**
+ * In-app back/forward stack of visited notes, independent of the browser history
+ */
+export function useNavigationHistory() {
+  const [state, setState] = useState<HistoryState>({ entries: [], index: -1 });
+  // Latest state, so clicks before the next render move from where the previous one left
+  const stateRef = useRef(state);
+
+  const update = useCallback((next: HistoryState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  /**
+   * Record a visit, dropping any forward entries (like a browser does)
+   */
+  const push = useCallback(
+    (entry: HistoryEntry) => {
+      const prev = stateRef.current;
+      const current = prev.entries[prev.index];
+      if (current && current.noteId === entry.noteId && current.anchor === entry.anchor) {
+        return;
+      }
+      const entries = [...prev.entries.slice(0, prev.index + 1), entry];
+      update({ entries, index: entries.length - 1 });
+    },
+    [update]
+  );
+
+  /**
+   * Move through the stack and return the entry to show, or null at either end
+   */
+  const go = (delta: -1 | 1): HistoryEntry | null => {
+    const prev = stateRef.current;
+    const nextIndex = prev.index + delta;
+    if (nextIndex < 0 || nextIndex >= prev.entries.length) return null;
+    update({ ...prev, index: nextIndex });
+    return prev.entries[nextIndex];
+  };
+
+  return {
+    push,
+    back: () => go(-1),
+    forward: () => go(1),
+    canGoBack: state.index > 0,
+    canGoForward: state.index < state.entries.length - 1,
+  };
+}
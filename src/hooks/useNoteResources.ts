@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useState } from "react";
+import { joplinApi } from "../services/joplinApi";
+import {
+  extractLinkedIds,
+  isImageMime,
+  type ResourceMap,
+} from "../services/markdownRenderer";
+import type { JoplinItem } from "../types/joplinItems";
+
+const RESOURCE_TYPE = 4;
+
+/**
+ * Resolve the `:/<id>` attachments of a note body.
+ * Metadata is fetched for every linked resource, blobs only for images.
+ * Object URLs are revoked when the body changes or the note is closed.
+ */
+export function useNoteResources(body: string): ResourceMap {
+  const linkedIds = useMemo(() => extractLinkedIds(body), [body]);
+  const [resources, setResources] = useState<ResourceMap>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+    const objectUrls: string[] = [];
+
+    const resolveResources = async () => {
+      if (linkedIds.length === 0) {
+        setResources(new Map());
+        return;
+      }
+
+      try {
+        // Linked ids may also be notes, only keep resource metadata items
+        const items = (await joplinApi.getItems(linkedIds)) as JoplinItem[];
+        const resourceItems = items.filter((item) => item.type_ === RESOURCE_TYPE);
+
+        const resolved: ResourceMap = new Map();
+        for (const item of resourceItems) {
+          resolved.set(item.id, {
+            id: item.id,
+            item,
+            title: item.title || item.filename || item.id,
+            mime: item.mime || "application/octet-stream",
+            size: item.size,
+          });
+        }
+        if (cancelled) return;
+        setResources(new Map(resolved));
+
+        // Load images one by one so the note shows them as they arrive
+        for (const item of resourceItems) {
+          if (!isImageMime(item.mime)) continue;
+          try {
+            const blob = await joplinApi.getResourceBlob(item);
+            if (cancelled) return;
+            const url = URL.createObjectURL(blob);
+            objectUrls.push(url);
+            resolved.set(item.id, { ...resolved.get(item.id)!, url });
+            setResources(new Map(resolved));
+          } catch (err) {
+            console.error(`[useNoteResources] Failed to load image ${item.id}:`, err);
+          }
+        }
+      } catch (err) {
+        console.error("[useNoteResources] Failed to resolve resources:", err);
+      }
+    };
+
+    resolveResources();
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [linkedIds]);
+
+  return resources;
+}
@@ -12,6 +12,16 @@ import process from "process";
 (window as any).process = process;
 (window as any).global = window;
 
+// Installable app: the service worker serves the app shell when offline.
+// Not registered in development, where it would cache Vite's dev modules.
+if (import.meta.env.PROD && "serviceWorker" in navigator) {
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((err) => console.error("Service worker registration failed:", err));
+  });
+}
+
 createRoot(document.getElementById("root")!).render(
   <StrictMode>
     <App />
@@ -0,0 +1,348 @@
+import { Buffer } from "buffer";
+
+// Browser implementation of the parts of fs/fs-extra/graceful-fs joplin-sync's
+// FileSystem target uses (aliased in vite.config.ts). Paths under the mounted sync
+// path map to a directory the user granted access to, or to one in the origin
+// private file system. Only the promise and callback forms work: the sync ones
+// can't be implemented on top of the File System Access API.
+
+interface Mount {
+  root: string;
+  handle: FileSystemDirectoryHandle;
+}
+
+type ErrorCode = "ENOENT" | "ENOTDIR" | "EISDIR" | "EEXIST" | "ENOTEMPTY";
+
+type Encoding = "utf8" | "utf-8" | "base64" | "binary" | "latin1" | "hex";
+type EncodingOption = Encoding | { encoding?: Encoding | null; flag?: string } | null | undefined;
+
+export interface BrowserStats {
+  size: number;
+  mtime: Date;
+  mtimeMs: number;
+  birthtime: Date;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+let mount: Mount | null = null;
+
+/**
+ * Serve `root` (e.g. `/Joplin`) and the paths below it from a directory handle.
+ * Mounting again replaces the previous directory.
+ */
+export function mountDirectory(root: string, handle: FileSystemDirectoryHandle): void {
+  mount = { root: normalize(root), handle };
+}
+
+export function unmountDirectory(): void {
+  mount = null;
+}
+
+export const getMountedDirectory = (): FileSystemDirectoryHandle | null => mount?.handle ?? null;
+
+function normalize(path: string): string {
+  const segments: string[] = [];
+  path.split(/[\\/]+/).forEach((segment) => {
+    if (segment === "..") segments.pop();
+    else if (segment && segment !== ".") segments.push(segment);
+  });
+  return `/${segments.join("/")}`;
+}
+
+const fsError = (code: ErrorCode, syscall: string, path: string): Error =>
+  Object.assign(new Error(`${code}: ${syscall} '${path}'`), { code, syscall, path });
+
+/**
+ * Path segments below the mount root, for a path that must be inside it
+ */
+function resolve(path: string, syscall: string): { handle: FileSystemDirectoryHandle; segments: string[] } {
+  const normalized = normalize(path);
+  if (!mount || (normalized !== mount.root && !normalized.startsWith(`${mount.root}/`))) {
+    throw fsError("ENOENT", syscall, path);
+  }
+  const rest = normalized.slice(mount.root.length);
+  return { handle: mount.handle, segments: rest.split("/").filter(Boolean) };
+}
+
+const isDomError = (error: unknown, name: string) => error instanceof DOMException && error.name === name;
+
+async function getDirectory(
+  path: string,
+  syscall: string,
+  options: { create?: boolean; segments?: string[] } = {}
+): Promise<FileSystemDirectoryHandle> {
+  const resolved = resolve(path, syscall);
+  let directory = resolved.handle;
+  try {
+    for (const segment of options.segments ?? resolved.segments) {
+      directory = await directory.getDirectoryHandle(segment, { create: options.create });
+    }
+    return directory;
+  } catch (error) {
+    if (isDomError(error, "TypeMismatchError")) throw fsError("ENOTDIR", syscall, path);
+    if (isDomError(error, "NotFoundError")) throw fsError("ENOENT", syscall, path);
+    throw error;
+  }
+}
+
+/**
+ * Parent directory of a path and the entry's name in it
+ */
+async function getParent(path: string, syscall: string) {
+  const { segments } = resolve(path, syscall);
+  if (segments.length === 0) throw fsError("EISDIR", syscall, path);
+  const parent = await getDirectory(path, syscall, { segments: segments.slice(0, -1) });
+  return { parent, name: segments[segments.length - 1] };
+}
+
+async function getEntry(path: string, syscall: string): Promise<FileSystemHandle> {
+  const { segments } = resolve(path, syscall);
+  if (segments.length === 0) return mount!.handle;
+
+  const { parent, name } = await getParent(path, syscall);
+  try {
+    return await parent.getFileHandle(name);
+  } catch (error) {
+    if (!isDomError(error, "TypeMismatchError")) throw fsError("ENOENT", syscall, path);
+  }
+  return parent.getDirectoryHandle(name);
+}
+
+async function getFile(path: string, syscall: string): Promise<FileSystemFileHandle> {
+  const entry = await getEntry(path, syscall);
+  if (entry.kind !== "file") throw fsError("EISDIR", syscall, path);
+  return entry as FileSystemFileHandle;
+}
+
+const encodingOf = (options: EncodingOption): Encoding | null =>
+  (typeof options === "string" ? options : options?.encoding) || null;
+
+const toBytes = (data: string | Uint8Array | ArrayBuffer, encoding: Encoding | null): Uint8Array =>
+  typeof data === "string"
+    ? Buffer.from(data, (encoding === "utf-8" ? "utf8" : encoding) || "utf8")
+    : new Uint8Array(data);
+
+async function stat(path: string): Promise<BrowserStats> {
+  const entry = await getEntry(path, "stat");
+  const file = entry.kind === "file" ? await (entry as FileSystemFileHandle).getFile() : null;
+  // Directories have no modification time in the File System Access API
+  const mtime = new Date(file?.lastModified ?? 0);
+  return {
+    size: file?.size ?? 0,
+    mtime,
+    mtimeMs: mtime.getTime(),
+    birthtime: mtime,
+    isFile: () => !!file,
+    isDirectory: () => !file,
+    isSymbolicLink: () => false,
+  };
+}
+
+async function readdir(path: string): Promise<string[]> {
+  const directory = await getDirectory(path, "scandir");
+  const names: string[] = [];
+  for await (const name of directory.keys()) names.push(name);
+  return names.sort();
+}
+
+async function readFile(path: string, options?: EncodingOption): Promise<string | Buffer> {
+  const file = await (await getFile(path, "open")).getFile();
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const encoding = encodingOf(options);
+  return encoding ? buffer.toString(encoding === "utf-8" ? "utf8" : encoding) : buffer;
+}
+
+async function writeFile(
+  path: string,
+  data: string | Uint8Array | ArrayBuffer,
+  options?: EncodingOption
+): Promise<void> {
+  const { parent, name } = await getParent(path, "open");
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await parent.getFileHandle(name, { create: true });
+  } catch (error) {
+    if (isDomError(error, "TypeMismatchError")) throw fsError("EISDIR", "open", path);
+    throw error;
+  }
+  const writable = await handle.createWritable();
+  await writable.write(toBytes(data, encodingOf(options)) as Uint8Array<ArrayBuffer>);
+  await writable.close();
+}
+
+async function appendFile(
+  path: string,
+  data: string | Uint8Array | ArrayBuffer,
+  options?: EncodingOption
+): Promise<void> {
+  const existing = (await exists(path)) ? ((await readFile(path)) as Buffer) : Buffer.alloc(0);
+  await writeFile(path, Buffer.concat([existing, toBytes(data, encodingOf(options))]));
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await getEntry(path, "access");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function mkdir(path: string, options?: { recursive?: boolean } | number): Promise<void> {
+  const recursive = typeof options === "object" && !!options.recursive;
+  if (!recursive) {
+    if (await exists(path)) throw fsError("EEXIST", "mkdir", path);
+    const { parent, name } = await getParent(path, "mkdir");
+    await parent.getDirectoryHandle(name, { create: true });
+    return;
+  }
+  await getDirectory(path, "mkdir", { create: true });
+}
+
+const ensureDir = (path: string) => mkdir(path, { recursive: true });
+
+async function unlink(path: string): Promise<void> {
+  await getFile(path, "unlink");
+  const { parent, name } = await getParent(path, "unlink");
+  await parent.removeEntry(name);
+}
+
+async function rmdir(path: string): Promise<void> {
+  await getDirectory(path, "rmdir");
+  const { parent, name } = await getParent(path, "rmdir");
+  try {
+    await parent.removeEntry(name);
+  } catch (error) {
+    if (isDomError(error, "InvalidModificationError")) throw fsError("ENOTEMPTY", "rmdir", path);
+    throw error;
+  }
+}
+
+/**
+ * fs-extra's remove: files and whole directories, no error when missing
+ */
+async function remove(path: string): Promise<void> {
+  if (!(await exists(path))) return;
+  const { parent, name } = await getParent(path, "rm");
+  await parent.removeEntry(name, { recursive: true });
+}
+
+async function rm(path: string, options: { recursive?: boolean; force?: boolean } = {}): Promise<void> {
+  if (!(await exists(path))) {
+    if (options.force) return;
+    throw fsError("ENOENT", "rm", path);
+  }
+  const { parent, name } = await getParent(path, "rm");
+  await parent.removeEntry(name, { recursive: !!options.recursive });
+}
+
+async function copy(source: string, destination: string): Promise<void> {
+  const entry = await getEntry(source, "copyfile");
+  if (entry.kind === "file") {
+    await writeFile(destination, await (await (entry as FileSystemFileHandle).getFile()).arrayBuffer());
+    return;
+  }
+  await ensureDir(destination);
+  for (const name of await readdir(source)) {
+    await copy(`${source}/${name}`, `${destination}/${name}`);
+  }
+}
+
+/**
+ * Rename or move. The File System Access API has no portable move, so entries are copied then removed.
+ */
+async function move(source: string, destination: string, options: { overwrite?: boolean } = {}): Promise<void> {
+  if (normalize(source) === normalize(destination)) return;
+  if (await exists(destination)) {
+    if (options.overwrite === false) throw fsError("EEXIST", "rename", destination);
+    await remove(destination);
+  }
+  await copy(source, destination);
+  await remove(source);
+}
+
+const rename = (source: string, destination: string) => move(source, destination);
+
+type Callback = (error: unknown, value?: unknown) => void;
+
+// Node-style callbacks are supported when passed as the last argument
+const withCallback =
+  <Args extends unknown[], Result>(fn: (...args: Args) => Promise<Result>) =>
+  (...args: unknown[]): Promise<Result> | void => {
+    const callback =
+      typeof args[args.length - 1] === "function" ? (args.pop() as Callback) : null;
+    const result = fn(...(args as Args));
+    if (!callback) return result;
+    result.then(
+      (value) => callback(null, value),
+      (error) => callback(error)
+    );
+  };
+
+const notSupported = (name: string) => () => {
+  throw new Error(`${name} is not supported in the browser, use the promise version`);
+};
+
+const promises = {
+  stat,
+  lstat: stat,
+  readdir,
+  readFile,
+  writeFile,
+  appendFile,
+  mkdir,
+  unlink,
+  rmdir,
+  rm,
+  rename,
+  copyFile: copy,
+  access: async (path: string) => {
+    await getEntry(path, "access");
+  },
+};
+
+export default {
+  stat: withCallback(stat),
+  lstat: withCallback(stat),
+  readdir: withCallback(readdir),
+  readFile: withCallback(readFile),
+  writeFile: withCallback(writeFile),
+  appendFile: withCallback(appendFile),
+  mkdir: withCallback(mkdir),
+  unlink: withCallback(unlink),
+  rmdir: withCallback(rmdir),
+  rm: withCallback(rm),
+  rename: withCallback(rename),
+  copyFile: withCallback(copy),
+  access: withCallback(promises.access),
+  promises,
+  // fs-extra
+  exists: withCallback(exists),
+  pathExists: withCallback(exists),
+  ensureDir: withCallback(ensureDir),
+  mkdirp: withCallback(ensureDir),
+  mkdirs: withCallback(ensureDir),
+  remove: withCallback(remove),
+  copy: withCallback(copy),
+  move: withCallback(move),
+  outputFile: withCallback(async (path: string, data: string | Uint8Array, options?: EncodingOption) => {
+    await ensureDir(`${normalize(path)}/..`);
+    await writeFile(path, data, options);
+  }),
+  existsSync: () => false,
+  readFileSync: notSupported("readFileSync"),
+  writeFileSync: notSupported("writeFileSync"),
+  appendFileSync: notSupported("appendFileSync"),
+  statSync: notSupported("statSync"),
+  unlinkSync: notSupported("unlinkSync"),
+  mkdirSync: notSupported("mkdirSync"),
+  readdirSync: notSupported("readdirSync"),
+  copySync: notSupported("copySync"),
+  moveSync: notSupported("moveSync"),
+  removeSync: notSupported("removeSync"),
+  ensureDirSync: notSupported("ensureDirSync"),
+  createReadStream: notSupported("createReadStream"),
+  createWriteStream: notSupported("createWriteStream"),
+};
@@ -0,0 +1,83 @@
+import type { Item } from "joplin-sync";
+import { joplinApi } from "./joplinApi";
+import { deleteItemPermanently, type OperationResult } from "./itemOperations";
+import type { JoplinItem } from "../types/joplinItems";
+
+const NOTE_TYPE = 1;
+
+export interface ConflictPair {
+  // Copy holding the changes that couldn't be synced
+  conflict: Item;
+  // Synced note the copy conflicts with, null when it's unknown or no longer exists
+  original: Item | null;
+}
+
+// Title and body the resolved note ends up with, null to keep the original as it is
+export type ConflictResolution = { title: string; body: string } | null;
+
+/**
+ * Conflict copies of notes with the note they conflict with, newest first.
+ * Copies made by older clients don't record their original.
+ */
+export function findConflicts(items: Item[]): ConflictPair[] {
+  const notesById = new Map<string, Item>();
+  items.forEach((item) => {
+    if (item?.type_ === NOTE_TYPE) notesById.set(item.id, item);
+  });
+
+  return items
+    .filter((item) => {
+      const note = item as JoplinItem;
+      return item?.type_ === NOTE_TYPE && note.is_conflict && !note.deleted_time;
+    })
+    .map((conflict) => {
+      const originalId = (conflict as JoplinItem).conflict_original_id;
+      const original = originalId ? notesById.get(originalId) : undefined;
+      return {
+        conflict,
+        original: original && !(original as JoplinItem).deleted_time ? original : null,
+      };
+    })
+    .sort((a, b) => (b.conflict.updated_time || 0) - (a.conflict.updated_time || 0));
+}
+
+/**
+ * Write the resolved note and delete the conflict copy. Without an original, the
+ * copy becomes a regular note instead when it's kept. The copy is left in place
+ * when the original changed on the sync target in the meantime.
+ */
+export async function resolveConflict(
+  pair: ConflictPair,
+  resolution: ConflictResolution,
+  items: Item[]
+): Promise<OperationResult> {
+  const { conflict, original } = pair;
+
+  if (!original) {
+    if (!resolution) return deleteItemPermanently(conflict, items);
+    const saved = await joplinApi.saveItem(conflict, {
+      ...resolution,
+      is_conflict: 0,
+      conflict_original_id: "",
+    });
+    return saved.status === "saved"
+      ? { updated: [saved.item], deletedIds: [], skippedCount: 0 }
+      : { updated: [], deletedIds: [], skippedCount: 1 };
+  }
+
+  const result: OperationResult = { updated: [], deletedIds: [], skippedCount: 0 };
+  if (resolution) {
+    const saved = await joplinApi.saveItem(original, resolution);
+    if (saved.status === "conflict") {
+      return { updated: [saved.remote], deletedIds: [], skippedCount: 1 };
+    }
+    if (saved.status === "deleted") {
+      return { updated: [], deletedIds: [original.id], skippedCount: 1 };
+    }
+    result.updated.push(saved.item);
+  }
+
+  const deleted = await deleteItemPermanently(conflict, items);
+  result.deletedIds.push(...deleted.deletedIds);
+  return result;
+}
@@ -0,0 +1,221 @@
+const VAULT_KEY = "joplin_vault";
+
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600000;
+// Most iterations accepted from outside the app, more would freeze the tab
+const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 10;
+
+// Encrypted with the vault key to tell a wrong passphrase on unlock
+const CHECK_TEXT = "joplin-vault";
+
+/**
+ * AES-GCM encrypted text, base64 encoded
+ */
+export interface SealedData {
+  iv: string;
+  data: string;
+}
+
+interface VaultRecord {
+  version: 1;
+  salt: string;
+  iterations: number;
+  check: SealedData;
+}
+
+export interface VaultStatus {
+  enabled: boolean;
+  unlocked: boolean;
+}
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+async function sealWith(key: CryptoKey, plainText: string): Promise<SealedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plainText));
+  return { iv: bytesToBase64(iv), data: bytesToBase64(new Uint8Array(data)) };
+}
+
+async function unsealWith(key: CryptoKey, sealed: SealedData): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBytes(sealed.iv) },
+    key,
+    base64ToBytes(sealed.data)
+  );
+  return new TextDecoder().decode(data);
+}
+
+/**
+ * Text encrypted with a key derived from a passphrase, with what it takes to derive it again
+ */
+export interface PassphraseSealedData extends SealedData {
+  salt: string;
+  iterations: number;
+}
+
+const BASE64_REGEX = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Whether data read from outside the app, e.g. an imported file, can be decrypted with a passphrase
+ */
+export function isPassphraseSealedData(value: unknown): value is PassphraseSealedData {
+  if (typeof value !== "object" || value === null) return false;
+  const { salt, iv, data, iterations } = value as Record<string, unknown>;
+  return (
+    [salt, iv, data].every((field) => typeof field === "string" && BASE64_REGEX.test(field)) &&
+    Number.isInteger(iterations) &&
+    (iterations as number) > 0 &&
+    (iterations as number) <= MAX_PBKDF2_ITERATIONS
+  );
+}
+
+/**
+ * Encrypt text with a passphrase, for data leaving the browser such as exported profiles
+ */
+export async function sealWithPassphrase(plainText: string, passphrase: string): Promise<PassphraseSealedData> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return { ...(await sealWith(key, plainText)), salt: bytesToBase64(salt), iterations: PBKDF2_ITERATIONS };
+}
+
+export async function unsealWithPassphrase(sealed: PassphraseSealedData, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, base64ToBytes(sealed.salt), sealed.iterations);
+  try {
+    return await unsealWith(key, sealed);
+  } catch {
+    // Another passphrase derives another key, which fails authentication
+    throw new Error("Wrong passphrase");
+  }
+}
+
+/**
+ * Encryption key for the secrets stored with the profiles, derived from a
+ * passphrase. Only the salt and a check value are stored; the key itself is
+ * kept in memory, so the vault has to be unlocked once per page session.
+ */
+export class CredentialVault {
+  private key: CryptoKey | null = null;
+  private listeners = new Set<() => void>();
+  private status: VaultStatus = { enabled: false, unlocked: false };
+
+  constructor() {
+    if (typeof localStorage !== "undefined") this.updateStatus();
+  }
+
+  isEnabled(): boolean {
+    return localStorage.getItem(VAULT_KEY) !== null;
+  }
+
+  /**
+   * Whether secrets are stored encrypted but can't be read or written yet
+   */
+  isLocked(): boolean {
+    return !this.key && this.isEnabled();
+  }
+
+  /**
+   * Turn vault mode on with a new passphrase, leaving the vault unlocked
+   */
+  async create(passphrase: string): Promise<void> {
+    if (this.isEnabled()) throw new Error("Saved profiles are already protected by a passphrase");
+
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const record: VaultRecord = {
+      version: 1,
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await sealWith(key, CHECK_TEXT),
+    };
+    localStorage.setItem(VAULT_KEY, JSON.stringify(record));
+    this.key = key;
+    this.updateStatus();
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const data = localStorage.getItem(VAULT_KEY);
+    if (!data) throw new Error("Saved profiles aren't protected by a passphrase");
+
+    const record = JSON.parse(data) as VaultRecord;
+    const key = await deriveKey(passphrase, base64ToBytes(record.salt), record.iterations);
+    let check: string | null = null;
+    try {
+      check = await unsealWith(key, record.check);
+    } catch {
+      // AES-GCM rejects data encrypted with another key
+    }
+    if (check !== CHECK_TEXT) throw new Error("Wrong passphrase");
+
+    this.key = key;
+    this.updateStatus();
+  }
+
+  /**
+   * Turn vault mode off. Secrets encrypted with it can't be read anymore.
+   */
+  remove(): void {
+    localStorage.removeItem(VAULT_KEY);
+    this.key = null;
+    this.updateStatus();
+  }
+
+  async seal(plainText: string): Promise<SealedData> {
+    return sealWith(this.requireKey(), plainText);
+  }
+
+  async unseal(sealed: SealedData): Promise<string> {
+    return unsealWith(this.requireKey(), sealed);
+  }
+
+  getStatus(): VaultStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to vault changes (compatible with useSyncExternalStore)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private requireKey(): CryptoKey {
+    if (!this.key) throw new Error("Saved profiles are locked, unlock them with your passphrase");
+    return this.key;
+  }
+
+  private updateStatus(): void {
+    this.status = { enabled: this.isEnabled(), unlocked: !!this.key };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const credentialVault = new CredentialVault();
@@ -0,0 +1,397 @@
+import sjcl from "sjcl";
+
+/**
+ * Joplin encryption methods. The SJCL ones store their parameters in the
+ * cipher text, the V1 ones use AES-256-GCM with a PBKDF2-SHA512 key.
+ */
+export const ENCRYPTION_METHOD = {
+  SJCL: 1,
+  SJCL_2: 2,
+  SJCL_3: 3,
+  SJCL_4: 4,
+  SJCL_1A: 5,
+  KEY_V1: 7,
+  FILE_V1: 8,
+  STRING_V1: 9,
+  SJCL_1B: 10,
+} as const;
+
+// PBKDF2 iterations of the V1 methods, high for master keys since they come from a password
+const KEY_V1_ITERATIONS = 220000;
+const DATA_V1_ITERATIONS = 3;
+
+// Methods used for new data, the ones every Joplin client can decrypt
+const ITEM_ENCRYPTION_METHOD = ENCRYPTION_METHOD.SJCL_1A;
+const MASTER_KEY_ENCRYPTION_METHOD = ENCRYPTION_METHOD.SJCL_4;
+
+// sjcl parameters Joplin uses for these methods
+const SJCL_PARAMS: Record<number, object> = {
+  [ENCRYPTION_METHOD.SJCL_1A]: { v: 1, iter: 101, ks: 128, ts: 64, mode: "ccm", adata: "", cipher: "aes" },
+  [ENCRYPTION_METHOD.SJCL_4]: { v: 1, iter: 10000, ks: 256, ts: 64, mode: "ccm", adata: "", cipher: "aes" },
+};
+
+// Size of the chunks encrypted separately, in characters for strings and bytes for files
+const CHUNK_SIZE = 5000;
+const MASTER_KEY_BYTES = 256;
+
+// Identifier and version of the only header format Joplin writes
+const HEADER_IDENTIFIER = "JED";
+const HEADER_VERSION = 1;
+
+/**
+ * Master key of a sync target, from info.json or a type 9 item
+ */
+export interface MasterKey {
+  id: string;
+  encryption_method: number;
+  // Key encrypted with the master password
+  content: string;
+  checksum?: string;
+  created_time?: number;
+  updated_time?: number;
+  source_application?: string;
+  enabled?: number;
+  hasBeenUsed?: boolean;
+}
+
+export interface EncryptionStatus {
+  masterKeyIds: string[];
+  unlockedKeyIds: string[];
+  // Key new data is encrypted with, null when the sync target doesn't use encryption
+  activeMasterKeyId: string | null;
+}
+
+interface EncryptedHeader {
+  encryptionMethod: number;
+  masterKeyId: string;
+  // Offset of the first chunk in the cipher text
+  dataOffset: number;
+}
+
+interface V1CipherText {
+  salt: string;
+  iv: string;
+  ct: string;
+}
+
+// sjcl's typings declare the JSON string it returns as an object
+const sjclEncrypt = sjcl.json.encrypt as unknown as (
+  key: string,
+  plainText: string,
+  params: object
+) => string;
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+const padHex = (value: number, length: number): string => value.toString(16).padStart(length, "0");
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+/**
+ * AES-256-GCM decryption with a key derived from `password` with PBKDF2-SHA512
+ */
+const decryptV1 = async (
+  password: string,
+  cipherText: string,
+  iterations: number
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const { salt, iv, ct } = JSON.parse(cipherText) as V1CipherText;
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  const key = await crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: base64ToBytes(salt), iterations, hash: "SHA-512" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["decrypt"]
+  );
+  const plainText = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToBytes(iv), additionalData: new Uint8Array(0), tagLength: 128 },
+    key,
+    base64ToBytes(ct)
+  );
+  return new Uint8Array(plainText);
+};
+
+/**
+ * Parse the header of a Joplin cipher text:
+ * `JED` + version (2 hex) + metadata length (6 hex) + method (2 hex) + master key id (32 hex)
+ */
+const parseHeader = (cipherText: string): EncryptedHeader => {
+  if (!cipherText.startsWith(HEADER_IDENTIFIER)) {
+    throw new Error("Invalid encrypted data: missing header");
+  }
+  const version = parseInt(cipherText.slice(3, 5), 16);
+  if (version !== HEADER_VERSION) {
+    throw new Error(`Unsupported encryption header version: ${version}`);
+  }
+
+  const metadataLength = parseInt(cipherText.slice(5, 11), 16);
+  const metadata = cipherText.slice(11, 11 + metadataLength);
+  return {
+    encryptionMethod: parseInt(metadata.slice(0, 2), 16),
+    masterKeyId: metadata.slice(2, 34),
+    dataOffset: 11 + metadataLength,
+  };
+};
+
+const encodeHeader = (encryptionMethod: number, masterKeyId: string): string => {
+  const metadata = padHex(encryptionMethod, 2) + masterKeyId;
+  return HEADER_IDENTIFIER + padHex(HEADER_VERSION, 2) + padHex(metadata.length, 6) + metadata;
+};
+
+const encodeChunk = (block: string): string => padHex(block.length, 6) + block;
+
+/**
+ * Split the data after the header in chunks, each prefixed with its length (6 hex)
+ */
+const readChunks = (cipherText: string, offset: number): string[] => {
+  const chunks: string[] = [];
+  while (offset < cipherText.length) {
+    const lengthHex = cipherText.slice(offset, offset + 6);
+    if (lengthHex.length !== 6) throw new Error(`Invalid block size: ${lengthHex}`);
+    const length = parseInt(lengthHex, 16);
+    offset += 6;
+    if (!length) continue;
+    chunks.push(cipherText.slice(offset, offset + length));
+    offset += length;
+  }
+  return chunks;
+};
+
+/**
+ * Decrypts master keys with the master password and, once they are unlocked,
+ * the items and resource files encrypted with them. Unlocked keys are only
+ * kept in memory.
+ */
+export class EncryptionService {
+  private masterKeys = new Map<string, MasterKey>();
+  // Decrypted master keys (hex), never persisted
+  private unlockedKeys = new Map<string, string>();
+  private listeners = new Set<() => void>();
+  private activeMasterKeyId: string | null = null;
+  private status: EncryptionStatus = { masterKeyIds: [], unlockedKeyIds: [], activeMasterKeyId: null };
+
+  /**
+   * Register master keys, replacing older copies with the same id
+   */
+  addMasterKeys(masterKeys: MasterKey[]): void {
+    const added = masterKeys.filter((masterKey) => {
+      const existing = this.masterKeys.get(masterKey.id);
+      return !existing || (existing.updated_time || 0) < (masterKey.updated_time || 0);
+    });
+    if (added.length === 0) return;
+
+    added.forEach((masterKey) => this.masterKeys.set(masterKey.id, masterKey));
+    this.updateStatus();
+  }
+
+  /**
+   * Set the key new data is encrypted with, or null when encryption is disabled
+   */
+  setActiveMasterKey(masterKeyId: string | null): void {
+    this.activeMasterKeyId = masterKeyId;
+    this.updateStatus();
+  }
+
+  /**
+   * Generate a master key protected by the password. The new key is registered
+   * and unlocked, but not made active.
+   */
+  async createMasterKey(password: string): Promise<MasterKey> {
+    const plainKey = bytesToHex(crypto.getRandomValues(new Uint8Array(MASTER_KEY_BYTES)));
+    const now = Date.now();
+    const masterKey: MasterKey = {
+      id: crypto.randomUUID().replace(/-/g, ""),
+      created_time: now,
+      updated_time: now,
+      source_application: "joplin-web",
+      encryption_method: MASTER_KEY_ENCRYPTION_METHOD,
+      checksum: sjcl.codec.hex.fromBits(sjcl.hash.sha256.hash(plainKey)),
+      content: sjclEncrypt(password, plainKey, SJCL_PARAMS[MASTER_KEY_ENCRYPTION_METHOD]),
+      hasBeenUsed: false,
+    };
+
+    this.masterKeys.set(masterKey.id, masterKey);
+    this.unlockedKeys.set(masterKey.id, plainKey);
+    this.updateStatus();
+    return masterKey;
+  }
+
+  /**
+   * Try to unlock every locked master key with the password
+   * @returns Number of keys that were unlocked
+   */
+  async unlock(password: string): Promise<number> {
+    let unlockedCount = 0;
+
+    for (const masterKey of this.masterKeys.values()) {
+      if (this.unlockedKeys.has(masterKey.id)) continue;
+      try {
+        this.unlockedKeys.set(masterKey.id, await this.decryptMasterKey(masterKey, password));
+        unlockedCount++;
+      } catch (error) {
+        console.warn(`[EncryptionService.unlock] Could not unlock master key ${masterKey.id}:`, error);
+      }
+    }
+
+    if (unlockedCount > 0) this.updateStatus();
+    return unlockedCount;
+  }
+
+  /**
+   * Forget the unlocked keys and the master keys of the sync target
+   */
+  reset(): void {
+    this.masterKeys.clear();
+    this.unlockedKeys.clear();
+    this.activeMasterKeyId = null;
+    this.updateStatus();
+  }
+
+  isUnlocked(masterKeyId: string): boolean {
+    return this.unlockedKeys.has(masterKeyId);
+  }
+
+  /**
+   * Id of the master key a cipher text was encrypted with
+   */
+  masterKeyIdOf(cipherText: string): string {
+    return parseHeader(cipherText).masterKeyId;
+  }
+
+  /**
+   * Encrypt a string in Joplin's format with the given (unlocked) master key
+   */
+  encryptString(plainText: string, masterKeyId: string): string {
+    const key = this.keyFor(masterKeyId);
+    let cipherText = encodeHeader(ITEM_ENCRYPTION_METHOD, masterKeyId);
+    for (let i = 0; i < plainText.length; i += CHUNK_SIZE) {
+      const chunk = plainText.slice(i, i + CHUNK_SIZE);
+      cipherText += encodeChunk(sjclEncrypt(key, chunk, SJCL_PARAMS[ITEM_ENCRYPTION_METHOD]));
+    }
+    return cipherText;
+  }
+
+  /**
+   * Encrypt a resource file in Joplin's format, every chunk holding a part of the file as base64
+   */
+  encryptFile(bytes: Uint8Array, masterKeyId: string): string {
+    const key = this.keyFor(masterKeyId);
+    let cipherText = encodeHeader(ITEM_ENCRYPTION_METHOD, masterKeyId);
+    for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+      const chunk = bytesToBase64(bytes.subarray(i, i + CHUNK_SIZE));
+      cipherText += encodeChunk(sjclEncrypt(key, chunk, SJCL_PARAMS[ITEM_ENCRYPTION_METHOD]));
+    }
+    return cipherText;
+  }
+
+  async decryptString(cipherText: string): Promise<string> {
+    const header = parseHeader(cipherText);
+    const key = this.keyFor(header.masterKeyId);
+    const chunks = readChunks(cipherText, header.dataOffset);
+
+    const plainChunks: string[] = [];
+    for (const chunk of chunks) {
+      if (header.encryptionMethod === ENCRYPTION_METHOD.STRING_V1) {
+        const bytes = await decryptV1(key, chunk, DATA_V1_ITERATIONS);
+        plainChunks.push(new TextDecoder("utf-16le").decode(bytes));
+      } else {
+        plainChunks.push(this.decryptSjcl(key, chunk));
+      }
+    }
+    return plainChunks.join("");
+  }
+
+  /**
+   * Decrypt an encrypted resource file. Every chunk holds a part of the file as base64.
+   */
+  async decryptFile(cipherText: string): Promise<Uint8Array<ArrayBuffer>> {
+    const header = parseHeader(cipherText);
+    const key = this.keyFor(header.masterKeyId);
+    const chunks = readChunks(cipherText, header.dataOffset);
+
+    const plainChunks: Uint8Array[] = [];
+    for (const chunk of chunks) {
+      if (header.encryptionMethod === ENCRYPTION_METHOD.FILE_V1) {
+        plainChunks.push(await decryptV1(key, chunk, DATA_V1_ITERATIONS));
+      } else {
+        plainChunks.push(base64ToBytes(this.decryptSjcl(key, chunk)));
+      }
+    }
+    return concatBytes(plainChunks);
+  }
+
+  getStatus(): EncryptionStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to key changes (compatible with useSyncExternalStore)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private async decryptMasterKey(masterKey: MasterKey, password: string): Promise<string> {
+    if (masterKey.encryption_method === ENCRYPTION_METHOD.KEY_V1) {
+      return bytesToHex(await decryptV1(password, masterKey.content, KEY_V1_ITERATIONS));
+    }
+    return this.decryptSjcl(password, masterKey.content);
+  }
+
+  private decryptSjcl(key: string, cipherText: string): string {
+    try {
+      return sjcl.json.decrypt(key, cipherText);
+    } catch (error) {
+      // sjcl throws plain objects rather than errors
+      const message = (error as { message?: string })?.message || String(error);
+      throw new Error(`Could not decrypt data: ${message}`);
+    }
+  }
+
+  private keyFor(masterKeyId: string): string {
+    const key = this.unlockedKeys.get(masterKeyId);
+    if (!key) throw new Error(`Master key ${masterKeyId} is not unlocked`);
+    return key;
+  }
+
+  private updateStatus(): void {
+    this.status = {
+      masterKeyIds: Array.from(this.masterKeys.keys()),
+      unlockedKeyIds: Array.from(this.unlockedKeys.keys()),
+      activeMasterKeyId: this.activeMasterKeyId,
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const encryptionService = new EncryptionService();
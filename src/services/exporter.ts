@@ -0,0 +1,443 @@
+import { zipSync, strToU8 } from "fflate";
+import type { Item } from "joplin-sync";
+import { joplinApi } from "./joplinApi";
+import { collectDescendants } from "./itemOperations";
+import { serializeItem } from "./itemSerializer";
+import {
+  extractLinkedIds,
+  isImageMime,
+  renderNoteBody,
+  type ResourceMap,
+} from "./markdownRenderer";
+import type { JoplinItem } from "../types/joplinItems";
+
+const NOTE_TYPE = 1;
+const FOLDER_TYPE = 2;
+const RESOURCE_TYPE = 4;
+const TAG_TYPE = 5;
+const NOTE_TAG_TYPE = 6;
+
+export type ExportFormat = "jex" | "markdown" | "html";
+
+export const EXPORT_FORMATS: Record<ExportFormat, string> = {
+  jex: "Joplin archive (JEX)",
+  markdown: "Markdown + resources (zip)",
+  html: "Single HTML file",
+};
+
+export interface ExportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  // Encrypted notes and resources whose file couldn't be fetched, left out of the export
+  skippedCount: number;
+}
+
+interface ExportContent {
+  folders: JoplinItem[];
+  notes: JoplinItem[];
+  resources: JoplinItem[];
+  // Resource files by resource id
+  files: Map<string, Uint8Array>;
+  skippedCount: number;
+}
+
+interface ArchiveEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const RESOURCES_DIR = "_resources";
+const TAR_BLOCK_SIZE = 512;
+const MIME_REGEX = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/i;
+const LINK_REGEX = /:\/([0-9a-zA-Z]{32})(#[^\s)"'<>]*)?/g;
+
+const isExportable = (item: Item) => !(item as JoplinItem).deleted_time;
+
+/**
+ * Notebooks, notes and attachments to export, with the attachment files.
+ * Encrypted items are skipped, as well as attachments that can't be downloaded.
+ */
+async function collectContent(
+  root: Item,
+  items: Item[],
+  onProgress?: (progress: ExportProgress) => void
+): Promise<ExportContent> {
+  const targets = [
+    root,
+    ...(root.type_ === FOLDER_TYPE ? collectDescendants(items, root.id) : []),
+  ].filter(isExportable) as JoplinItem[];
+
+  let skippedCount = targets.filter((item) => item.encryption_applied).length;
+  const folders = targets.filter((item) => item.type_ === FOLDER_TYPE && !item.encryption_applied);
+  const notes = targets.filter((item) => item.type_ === NOTE_TYPE && !item.encryption_applied);
+
+  // Attachments that aren't loaded yet are fetched on the spot
+  const resourceIds = new Set(notes.flatMap((note) => extractLinkedIds(note.body || "")));
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  const missingIds = Array.from(resourceIds).filter((id) => !itemsById.has(id));
+  if (missingIds.length > 0) {
+    (await joplinApi.getItems(missingIds)).forEach((item) => itemsById.set(item.id, item));
+  }
+  const resources = Array.from(resourceIds)
+    .map((id) => itemsById.get(id) as JoplinItem | undefined)
+    .filter((item): item is JoplinItem => item?.type_ === RESOURCE_TYPE && !item.encryption_applied);
+
+  const files = new Map<string, Uint8Array>();
+  for (let i = 0; i < resources.length; i++) {
+    onProgress?.({ done: i, total: resources.length });
+    try {
+      const blob = await joplinApi.getResourceBlob(resources[i]);
+      files.set(resources[i].id, new Uint8Array(await blob.arrayBuffer()));
+    } catch (error) {
+      console.error(`[exporter] Skipping resource ${resources[i].id}:`, error);
+      skippedCount++;
+    }
+  }
+  onProgress?.({ done: resources.length, total: resources.length });
+
+  return {
+    folders,
+    notes,
+    resources: resources.filter((resource) => files.has(resource.id)),
+    files,
+    skippedCount,
+  };
+}
+
+const sanitizeFileName = (name: string): string =>
+  // eslint-disable-next-line no-control-regex
+  name.replace(/[/\\:*?"<>|\x00-\x1f]/g, "_").trim().slice(0, 100) || "Untitled";
+
+/**
+ * A file name that isn't taken yet in `used`, which is updated
+ */
+const uniqueFileName = (used: Set<string>, base: string, extension: string): string => {
+  const suffix = extension ? `.${extension}` : "";
+  let name = `${base}${suffix}`;
+  for (let i = 1; used.has(name.toLowerCase()); i++) {
+    name = `${base} (${i})${suffix}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+const resourceExtension = (resource: JoplinItem): string =>
+  resource.file_extension || resource.filename?.split(".").pop() || "bin";
+
+// ---- JEX ----
+
+const writeString = (block: Uint8Array, offset: number, length: number, value: string) => {
+  block.set(strToU8(value).subarray(0, length), offset);
+};
+
+const writeOctal = (block: Uint8Array, offset: number, length: number, value: number) => {
+  writeString(block, offset, length - 1, value.toString(8).padStart(length - 1, "0"));
+};
+
+/**
+ * Build a ustar archive, the container format of JEX files
+ */
+function createTar(entries: ArchiveEntry[]): Uint8Array {
+  const mtime = Math.floor(Date.now() / 1000);
+  const blocks: Uint8Array[] = [];
+
+  entries.forEach(({ path, data }) => {
+    const header = new Uint8Array(TAR_BLOCK_SIZE);
+    writeString(header, 0, 100, path);
+    writeOctal(header, 100, 8, 0o644);
+    writeOctal(header, 108, 8, 0);
+    writeOctal(header, 116, 8, 0);
+    writeOctal(header, 124, 12, data.length);
+    writeOctal(header, 136, 12, mtime);
+    // The checksum is computed with its own field filled with spaces
+    header.fill(0x20, 148, 156);
+    header[156] = "0".charCodeAt(0);
+    writeString(header, 257, 6, "ustar");
+    writeString(header, 263, 2, "00");
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    writeString(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+
+    blocks.push(header, data);
+    const padding = (TAR_BLOCK_SIZE - (data.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+    if (padding > 0) blocks.push(new Uint8Array(padding));
+  });
+  // Two empty blocks mark the end of the archive
+  blocks.push(new Uint8Array(TAR_BLOCK_SIZE * 2));
+
+  const tar = new Uint8Array(blocks.reduce((size, block) => size + block.length, 0));
+  let offset = 0;
+  blocks.forEach((block) => {
+    tar.set(block, offset);
+    offset += block.length;
+  });
+  return tar;
+}
+
+/**
+ * Joplin's raw export: one serialized item per `<id>.md` file, with the
+ * attachment files in `resources/`
+ */
+function buildJex(root: Item, content: ExportContent, items: Item[]): Uint8Array {
+  const noteIds = new Set(content.notes.map((note) => note.id));
+  const noteTags = items.filter(
+    (item) => item.type_ === NOTE_TAG_TYPE && noteIds.has((item as JoplinItem).note_id || "")
+  ) as JoplinItem[];
+  const tagIds = new Set(noteTags.map((link) => link.tag_id));
+  const tags = items.filter((item) => item.type_ === TAG_TYPE && tagIds.has(item.id));
+
+  const entries: ArchiveEntry[] = [];
+  const addItem = (item: Item) =>
+    entries.push({ path: `${item.id}.md`, data: strToU8(serializeItem(item)) });
+
+  // The exported notebook becomes a top-level one when imported
+  content.folders.forEach((folder) =>
+    addItem(folder.id === root.id ? { ...folder, parent_id: "" } : folder)
+  );
+  content.notes.forEach(addItem);
+  tags.forEach(addItem);
+  noteTags.forEach(addItem);
+  content.resources.forEach((resource) => {
+    // Files are exported decrypted
+    addItem({ ...resource, encryption_blob_encrypted: 0 });
+    entries.push({
+      path: `resources/${resource.id}.${resourceExtension(resource)}`,
+      data: content.files.get(resource.id)!,
+    });
+  });
+
+  return createTar(entries);
+}
+
+// ---- Markdown ----
+
+const encodePath = (path: string): string => path.split("/").map(encodeURIComponent).join("/");
+
+/**
+ * Relative link from a file to another, both given from the archive root
+ */
+const relativePath = (fromFile: string, toFile: string): string => {
+  const fromDirs = fromFile.split("/").slice(0, -1);
+  const toParts = toFile.split("/");
+  let common = 0;
+  while (common < fromDirs.length && common < toParts.length - 1 && fromDirs[common] === toParts[common]) {
+    common++;
+  }
+  return [...fromDirs.slice(common).map(() => ".."), ...toParts.slice(common)].join("/");
+};
+
+/**
+ * Path of every notebook and note in the archive, notebooks as folders named after their title
+ */
+const buildNotePaths = (root: Item, content: ExportContent): Map<string, string> => {
+  const folderPaths = new Map<string, string>();
+  const usedNames = new Map<string, Set<string>>();
+  const namesIn = (dir: string) => {
+    if (!usedNames.has(dir)) usedNames.set(dir, new Set());
+    return usedNames.get(dir)!;
+  };
+
+  const foldersById = new Map(content.folders.map((folder) => [folder.id, folder]));
+  const folderPath = (folder: JoplinItem): string => {
+    const known = folderPaths.get(folder.id);
+    if (known !== undefined) return known;
+    const parent = folder.id === root.id ? undefined : foldersById.get(folder.parent_id);
+    const parentPath = parent ? folderPath(parent) : "";
+    const name = uniqueFileName(namesIn(parentPath), sanitizeFileName(folder.title || ""), "");
+    const path = parentPath ? `${parentPath}/${name}` : name;
+    folderPaths.set(folder.id, path);
+    return path;
+  };
+
+  const paths = new Map<string, string>();
+  [...content.notes]
+    .sort((a, b) => (a.title || "").localeCompare(b.title || ""))
+    .forEach((note) => {
+      const folder = foldersById.get(note.parent_id);
+      const dir = folder ? folderPath(folder) : "";
+      const name = uniqueFileName(namesIn(dir), sanitizeFileName(note.title || ""), "md");
+      paths.set(note.id, dir ? `${dir}/${name}` : name);
+    });
+  return paths;
+};
+
+/**
+ * Markdown files laid out like the notebooks, with attachments in a shared
+ * `_resources` folder and `:/<id>` links turned into relative links
+ */
+function buildMarkdownZip(root: Item, content: ExportContent): Uint8Array {
+  const notePaths = buildNotePaths(root, content);
+  const resourcePaths = new Map<string, string>();
+  const resourceNames = new Set<string>();
+  content.resources.forEach((resource) => {
+    const base = sanitizeFileName((resource.title || resource.id).replace(/\.[^.]*$/, ""));
+    const name = uniqueFileName(resourceNames, base, resourceExtension(resource));
+    resourcePaths.set(resource.id, `${RESOURCES_DIR}/${name}`);
+  });
+
+  const files: Record<string, Uint8Array> = {};
+  content.notes.forEach((note) => {
+    const path = notePaths.get(note.id)!;
+    const body = (note.body || "").replace(LINK_REGEX, (link: string, id: string, anchor?: string) => {
+      const target = resourcePaths.get(id) ?? notePaths.get(id);
+      if (!target) return link;
+      return encodePath(relativePath(path, target)) + (notePaths.has(id) && anchor ? anchor : "");
+    });
+    files[path] = strToU8(body);
+  });
+  resourcePaths.forEach((path, id) => {
+    files[path] = content.files.get(id)!;
+  });
+
+  return zipSync(files);
+}
+
+// ---- HTML ----
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const HTML_STYLE = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; line-height: 1.6; max-width: 860px; margin: 0 auto; padding: 2rem; color: #1f2937; }
+  nav ul { padding-left: 1.25rem; }
+  article { border-top: 1px solid #e5e7eb; margin-top: 2rem; padding-top: 1rem; }
+  .note-path { color: #6b7280; font-size: 0.875rem; margin: 0; }
+  img { max-width: 100%; }
+  pre { background: #f3f4f6; padding: 1rem; overflow-x: auto; }
+  code { font-family: ui-monospace, monospace; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+  blockquote { border-left: 4px solid #d1d5db; margin-left: 0; padding-left: 1rem; color: #4b5563; }
+`;
+
+/**
+ * One HTML page with every note, attachments embedded as data URLs (images
+ * shown, other files as download links) and links between exported notes
+ * pointing inside the page
+ */
+function buildHtml(root: Item, content: ExportContent): Uint8Array {
+  const notePaths = buildNotePaths(root, content);
+  const resources: ResourceMap = new Map();
+  const downloads = new Map<string, { url: string; fileName: string }>();
+  content.resources.forEach((resource) => {
+    // The mime type comes from synced metadata and ends up in the page
+    const mime =
+      resource.mime && MIME_REGEX.test(resource.mime) ? resource.mime : "application/octet-stream";
+    const url = `data:${mime};base64,${bytesToBase64(content.files.get(resource.id)!)}`;
+    const base = sanitizeFileName((resource.title || resource.id).replace(/\.[^.]*$/, ""));
+    downloads.set(resource.id, { url, fileName: `${base}.${resourceExtension(resource)}` });
+    resources.set(resource.id, {
+      id: resource.id,
+      item: resource,
+      title: resource.title || resource.filename || resource.id,
+      mime,
+      size: resource.size,
+      url: isImageMime(mime) ? url : undefined,
+    });
+  });
+
+  const notes = [...content.notes].sort((a, b) =>
+    notePaths.get(a.id)!.localeCompare(notePaths.get(b.id)!)
+  );
+  const anchorOf = (id: string) => `note-${id}`;
+
+  const toc = notes
+    .map(
+      (note) =>
+        `<li><a href="#${anchorOf(note.id)}">${escapeHtml(notePaths.get(note.id)!.replace(/\.md$/, ""))}</a></li>`
+    )
+    .join("\n");
+
+  const articles = notes
+    .map((note) => {
+      const html = renderNoteBody(note.body || "", note.markup_language, resources).replace(
+        /href=":\/([0-9a-zA-Z]{32})(#[^"]*)?"/g,
+        (link: string, id: string) => {
+          if (notePaths.has(id)) return `href="#${anchorOf(id)}"`;
+          const download = downloads.get(id);
+          if (!download) return link;
+          return `href="${escapeHtml(download.url)}" download="${escapeHtml(download.fileName)}"`;
+        }
+      );
+      const dir = notePaths.get(note.id)!.split("/").slice(0, -1).join(" / ");
+      return `<article id="${anchorOf(note.id)}">
+${dir ? `<p class="note-path">${escapeHtml(dir)}</p>` : ""}
+<h1>${escapeHtml(note.title || "Untitled")}</h1>
+${html}
+</article>`;
+    })
+    .join("\n");
+
+  const title = escapeHtml(root.title || "Untitled");
+  return strToU8(`<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+${notes.length > 1 ? `<nav><h1>${title}</h1><ul>\n${toc}\n</ul></nav>` : ""}
+${articles}
+</body>
+</html>
+`);
+}
+
+/**
+ * Export a notebook with everything in it, or a single note, entirely in the browser
+ * @param items Every loaded item, the notebook's content must be fully loaded
+ */
+export async function exportItems(
+  root: Item,
+  items: Item[],
+  format: ExportFormat,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<ExportResult> {
+  try {
+    const content = await collectContent(root, items, onProgress);
+    if (content.notes.length === 0 && content.folders.length === 0) {
+      throw new Error("Nothing to export, the items are encrypted or in the trash");
+    }
+
+    const baseName = sanitizeFileName(root.title || "");
+    let blob: Blob;
+    let fileName: string;
+    if (format === "jex") {
+      blob = new Blob([buildJex(root, content, items) as Uint8Array<ArrayBuffer>], {
+        type: "application/x-tar",
+      });
+      fileName = `${baseName}.jex`;
+    } else if (format === "markdown") {
+      blob = new Blob([buildMarkdownZip(root, content) as Uint8Array<ArrayBuffer>], {
+        type: "application/zip",
+      });
+      fileName = `${baseName}.zip`;
+    } else {
+      blob = new Blob([buildHtml(root, content) as Uint8Array<ArrayBuffer>], { type: "text/html" });
+      fileName = `${baseName}.html`;
+    }
+
+    return { blob, fileName, skippedCount: content.skippedCount };
+  } catch (error) {
+    console.error("[exporter] Error exporting items:", error);
+    throw new Error(`Failed to export: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,428 @@
+import { strFromU8, unzipSync } from "fflate";
+import md5 from "md5";
+import type { Item } from "joplin-sync";
+import {
+  createFolder,
+  createItemId,
+  createNote,
+  createResource,
+  createTag,
+  tagNote,
+} from "./itemOperations";
+import { MARKUP_LANGUAGE } from "./markdownRenderer";
+import type { JoplinItem } from "../types/joplinItems";
+
+const TAG_TYPE = 5;
+
+/**
+ * A file to import, with its path inside the dropped folder or zip
+ */
+export interface ImportFile {
+  path: string;
+  data: Uint8Array;
+}
+
+export interface ImportSource {
+  // Name of the dropped folder or file, used for the top-level notebook
+  name: string;
+  files: ImportFile[];
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportResult {
+  // Notebook holding everything that was imported
+  rootFolder: Item;
+  // Every item written to the sync target
+  created: Item[];
+  noteCount: number;
+}
+
+const MARKDOWN_EXTENSIONS = ["md", "markdown"];
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  csv: "text/csv",
+  html: "text/html",
+  json: "application/json",
+  zip: "application/zip",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+const MIME_EXTENSIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(MIME_TYPES).map(([extension, mime]) => [mime, extension])
+);
+
+const extensionOf = (path: string): string => {
+  const name = path.split("/").pop() || "";
+  return name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+};
+
+const baseNameOf = (path: string): string =>
+  (path.split("/").pop() || "").replace(/\.[^.]*$/, "");
+
+const mimeOf = (path: string): string => MIME_TYPES[extensionOf(path)] || "application/octet-stream";
+
+// ---- Reading the dropped content ----
+
+const readEntryFile = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryEntries = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries() returns the entries in batches, until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+const readEntry = async (entry: FileSystemEntry, path: string, files: ImportFile[]) => {
+  if (entry.isFile) {
+    const file = await readEntryFile(entry as FileSystemFileEntry);
+    files.push({ path, data: new Uint8Array(await file.arrayBuffer()) });
+  } else if (entry.isDirectory) {
+    for (const child of await readDirectoryEntries(entry as FileSystemDirectoryEntry)) {
+      await readEntry(child, `${path}/${child.name}`, files);
+    }
+  }
+};
+
+/**
+ * Read the files and folders dropped on the page
+ */
+export async function readDataTransfer(dataTransfer: DataTransfer): Promise<ImportSource> {
+  // Entries must be taken before the first await, the drop data is cleared after the event
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  const files: ImportFile[] = [];
+  for (const entry of entries) {
+    await readEntry(entry, entry.name, files);
+  }
+  return { name: entries.length === 1 ? baseNameOf(entries[0].name) : "Imported notes", files };
+}
+
+/**
+ * Read the files picked in a file input, keeping the folder structure of a picked directory
+ */
+export async function readFileList(fileList: FileList): Promise<ImportSource> {
+  const files: ImportFile[] = [];
+  for (const file of Array.from(fileList)) {
+    files.push({
+      path: file.webkitRelativePath || file.name,
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+  }
+  const topLevel = new Set(files.map((file) => file.path.split("/")[0]));
+  const name = topLevel.size === 1 ? baseNameOf(Array.from(topLevel)[0]) : "Imported notes";
+  return { name, files };
+}
+
+// ---- Markdown ----
+
+/**
+ * Resolve a relative link from a file, both relative to the import root
+ */
+const resolvePath = (fromFile: string, target: string): string => {
+  const parts = fromFile.split("/").slice(0, -1);
+  target.split("/").forEach((part) => {
+    if (part === "..") parts.pop();
+    else if (part !== "." && part !== "") parts.push(part);
+  });
+  return parts.join("/");
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Link and image targets in Markdown, and image sources in inline HTML
+const MARKDOWN_LINK_REGEX = /(!?\[[^\]]*\]\()(<[^>]+>|[^)\s]+)/g;
+const HTML_SRC_REGEX = /(<img\s[^>]*?src=["'])([^"']+)/gi;
+
+/**
+ * Import Markdown files as notes, with one notebook per folder. Images and
+ * other linked files become resources, links between imported notes keep working.
+ */
+async function importMarkdown(
+  source: ImportSource,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportResult> {
+  const filesByPath = new Map(source.files.map((file) => [file.path, file]));
+  const noteFiles = source.files
+    .filter((file) => MARKDOWN_EXTENSIONS.includes(extensionOf(file.path)))
+    .sort((a, b) => a.path.localeCompare(b.path));
+  if (noteFiles.length === 0) {
+    throw new Error("No Markdown files found");
+  }
+
+  // When every note is in the same top-level folder, that folder is the notebook itself.
+  // Other files, such as a shared resources folder, may be next to it.
+  let name = source.name;
+  let rootDir = "";
+  const topLevel = new Set(noteFiles.map((file) => file.path.split("/")[0]));
+  if (topLevel.size === 1 && noteFiles.every((file) => file.path.includes("/"))) {
+    rootDir = Array.from(topLevel)[0];
+    name = rootDir;
+  }
+
+  const created: Item[] = [];
+  const rootFolder = await createFolder("", name);
+  created.push(rootFolder);
+
+  // Notebooks for every folder holding notes, parents first
+  const folderIds = new Map<string, string>([[rootDir, rootFolder.id]]);
+  const ensureFolder = async (dir: string): Promise<string> => {
+    const known = folderIds.get(dir);
+    if (known) return known;
+    const parentDir = dir.includes("/") ? dir.slice(0, dir.lastIndexOf("/")) : "";
+    const parentId = await ensureFolder(parentDir);
+    const folder = await createFolder(parentId, dir.split("/").pop()!);
+    created.push(folder);
+    folderIds.set(dir, folder.id);
+    return folder.id;
+  };
+
+  // Note ids are known up front so notes can link to the ones imported after them
+  const noteIds = new Map(noteFiles.map((file) => [file.path, createItemId()]));
+  const resourceIds = new Map<string, string>();
+
+  const linkTarget = async (notePath: string, target: string): Promise<string | null> => {
+    const unwrapped = target.replace(/^<(.*)>$/, "$1");
+    if (/^[a-z][a-z0-9+.-]*:/i.test(unwrapped) || unwrapped.startsWith("#") || unwrapped.startsWith("/")) {
+      return null;
+    }
+    const [pathPart, anchor] = unwrapped.split("#");
+    const path = resolvePath(notePath, safeDecode(pathPart));
+
+    const noteId = noteIds.get(path);
+    if (noteId) return `:/${noteId}${anchor ? `#${anchor}` : ""}`;
+
+    const file = filesByPath.get(path);
+    if (!file) return null;
+    if (!resourceIds.has(path)) {
+      const resource = await createResource(path.split("/").pop()!, mimeOf(path), file.data);
+      created.push(resource);
+      resourceIds.set(path, resource.id);
+    }
+    return `:/${resourceIds.get(path)}`;
+  };
+
+  for (let i = 0; i < noteFiles.length; i++) {
+    onProgress?.({ done: i, total: noteFiles.length });
+    const file = noteFiles[i];
+    const dir = file.path.includes("/") ? file.path.slice(0, file.path.lastIndexOf("/")) : "";
+    const parentId = await ensureFolder(dir);
+
+    let body = strFromU8(file.data).replace(/\r\n/g, "\n");
+    for (const regex of [MARKDOWN_LINK_REGEX, HTML_SRC_REGEX]) {
+      const replacements = new Map<string, string | null>();
+      for (const match of body.matchAll(regex)) {
+        if (!replacements.has(match[2])) {
+          replacements.set(match[2], await linkTarget(file.path, match[2]));
+        }
+      }
+      body = body.replace(
+        regex,
+        (whole: string, prefix: string, target: string) =>
+          replacements.get(target) ? prefix + replacements.get(target) : whole
+      );
+    }
+
+    created.push(await createNote(parentId, baseNameOf(file.path), { id: noteIds.get(file.path), body }));
+  }
+  onProgress?.({ done: noteFiles.length, total: noteFiles.length });
+
+  return { rootFolder, created, noteCount: noteFiles.length };
+}
+
+// ---- ENEX ----
+
+/**
+ * Evernote dates look like 20240131T093000Z
+ */
+const parseEnexDate = (value?: string | null): number => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return 0;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+};
+
+const childText = (parent: Element, selector: string): string =>
+  parent.querySelector(`:scope > ${selector}`)?.textContent?.trim() || "";
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64.replace(/\s/g, ""));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Import an Evernote export as HTML notes in a new notebook, like the desktop
+ * client's "ENEX as HTML" import. Attachments become resources and tags are
+ * matched with existing ones by name.
+ */
+async function importEnex(
+  name: string,
+  xml: string,
+  items: Item[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportResult> {
+  const enex = new DOMParser().parseFromString(xml, "application/xml");
+  if (enex.querySelector("parsererror")) {
+    throw new Error("The file is not a valid ENEX export");
+  }
+  const notes = Array.from(enex.querySelectorAll("en-export > note"));
+
+  const created: Item[] = [];
+  const rootFolder = await createFolder("", name);
+  created.push(rootFolder);
+
+  const tagIds = new Map<string, string>();
+  items.forEach((item) => {
+    if (item.type_ === TAG_TYPE && !(item as JoplinItem).deleted_time && item.title) {
+      tagIds.set(item.title.toLowerCase(), item.id);
+    }
+  });
+
+  for (let i = 0; i < notes.length; i++) {
+    onProgress?.({ done: i, total: notes.length });
+    const note = notes[i];
+
+    // Attachments are referenced from the content by the MD5 hash of their data
+    const resourcesByHash = new Map<string, Item>();
+    for (const resourceElement of Array.from(note.querySelectorAll(":scope > resource"))) {
+      const data = base64ToBytes(childText(resourceElement, "data"));
+      const mime = childText(resourceElement, "mime") || "application/octet-stream";
+      const hash = md5(data);
+      const fileName =
+        resourceElement.querySelector("resource-attributes > file-name")?.textContent?.trim() ||
+        `${hash}.${MIME_EXTENSIONS[mime] || "bin"}`;
+      const resource = await createResource(fileName, mime, data);
+      created.push(resource);
+      resourcesByHash.set(hash, resource);
+    }
+
+    const content = new DOMParser().parseFromString(childText(note, "content"), "text/html");
+    content.querySelectorAll("en-media").forEach((media) => {
+      const resource = resourcesByHash.get(media.getAttribute("hash") || "");
+      if (!resource) {
+        media.remove();
+        return;
+      }
+      const isImage = ((resource as JoplinItem).mime || "").startsWith("image/");
+      const replacement = content.createElement(isImage ? "img" : "a");
+      if (isImage) replacement.setAttribute("src", `:/${resource.id}`);
+      else {
+        replacement.setAttribute("href", `:/${resource.id}`);
+        replacement.textContent = resource.title || resource.id;
+      }
+      media.replaceWith(replacement);
+    });
+    content.querySelectorAll("en-todo").forEach((todo) => {
+      const checkbox = content.createElement("input");
+      checkbox.setAttribute("type", "checkbox");
+      checkbox.setAttribute("disabled", "");
+      if (todo.getAttribute("checked") === "true") checkbox.setAttribute("checked", "");
+      todo.replaceWith(checkbox);
+    });
+    content.querySelectorAll("en-crypt").forEach((crypt) => {
+      crypt.replaceWith(content.createTextNode("[Encrypted Evernote content]"));
+    });
+    const body = (content.querySelector("en-note") ?? content.body).innerHTML.trim();
+
+    const createdTime = parseEnexDate(childText(note, "created")) || Date.now();
+    const updatedTime = parseEnexDate(childText(note, "updated")) || createdTime;
+    const attributes = note.querySelector(":scope > note-attributes");
+    const attribute = (key: string) => (attributes ? childText(attributes, key) : "");
+    const reminderTime = parseEnexDate(attribute("reminder-time"));
+
+    const noteItem = await createNote(rootFolder.id, childText(note, "title"), {
+      body,
+      markup_language: MARKUP_LANGUAGE.HTML,
+      created_time: createdTime,
+      user_created_time: createdTime,
+      user_updated_time: updatedTime,
+      author: attribute("author"),
+      source_url: attribute("source-url"),
+      latitude: Number(attribute("latitude")) || 0,
+      longitude: Number(attribute("longitude")) || 0,
+      altitude: Number(attribute("altitude")) || 0,
+      is_todo: reminderTime ? 1 : 0,
+      todo_due: reminderTime,
+      todo_completed: parseEnexDate(attribute("reminder-done-time")),
+    } as Partial<JoplinItem>);
+    created.push(noteItem);
+
+    for (const tagElement of Array.from(note.querySelectorAll(":scope > tag"))) {
+      const title = tagElement.textContent?.trim();
+      if (!title) continue;
+      const key = title.toLowerCase();
+      if (!tagIds.has(key)) {
+        const tag = await createTag(title);
+        created.push(tag);
+        tagIds.set(key, tag.id);
+      }
+      created.push(await tagNote(noteItem.id, tagIds.get(key)!));
+    }
+  }
+  onProgress?.({ done: notes.length, total: notes.length });
+
+  return { rootFolder, created, noteCount: notes.length };
+}
+
+/**
+ * Import a Markdown folder, a zip of Markdown files or an Evernote `.enex` file
+ * into new notebooks on the sync target
+ * @param items Every loaded item, used to reuse existing tags
+ */
+export async function importSource(
+  source: ImportSource,
+  items: Item[],
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportResult> {
+  try {
+    const [single] = source.files;
+    if (source.files.length === 1 && extensionOf(single.path) === "enex") {
+      return await importEnex(baseNameOf(single.path), strFromU8(single.data), items, onProgress);
+    }
+    if (source.files.length === 1 && extensionOf(single.path) === "zip") {
+      const entries = unzipSync(single.data);
+      const files = Object.entries(entries)
+        .filter(([path]) => !path.endsWith("/") && !path.startsWith("__MACOSX/"))
+        .map(([path, data]) => ({ path, data }));
+      return await importMarkdown({ name: baseNameOf(single.path), files }, onProgress);
+    }
+    return await importMarkdown(source, onProgress);
+  } catch (error) {
+    console.error("[importer] Error importing:", error);
+    throw new Error(`Failed to import: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
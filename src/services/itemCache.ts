@@ -0,0 +1,116 @@
+import type { Item } from "joplin-sync";
+
+const DB_NAME_PREFIX = "joplin_item_cache_";
+const DB_VERSION = 2;
+const ITEMS_STORE = "items";
+const RESOURCES_STORE = "resources";
+
+export interface CachedItem {
+  id: string;
+  // updated_time of the item's file on the sync target when it was downloaded
+  remoteUpdatedTime: number | null;
+  item: Item;
+}
+
+export interface CachedResource {
+  id: string;
+  // blob_updated_time of the resource when its file was downloaded
+  blobUpdatedTime: number;
+  // The file as stored on the sync target, so encrypted files stay encrypted
+  data: Uint8Array<ArrayBuffer>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * Per-profile IndexedDB cache of unserialized items and resource files, keyed by item id
+ */
+export class ItemCache {
+  private db: IDBDatabase;
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+  }
+
+  /**
+   * Open (or create) the cache database of a profile
+   */
+  static async open(profileId: string): Promise<ItemCache> {
+    const request = indexedDB.open(`${DB_NAME_PREFIX}${profileId}`, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(ITEMS_STORE)) {
+        request.result.createObjectStore(ITEMS_STORE, { keyPath: "id" });
+      }
+      if (!request.result.objectStoreNames.contains(RESOURCES_STORE)) {
+        request.result.createObjectStore(RESOURCES_STORE, { keyPath: "id" });
+      }
+    };
+    return new ItemCache(await requestToPromise(request));
+  }
+
+  /**
+   * Delete the whole cache of a profile (e.g. when the profile is removed)
+   */
+  static async deleteForProfile(profileId: string): Promise<void> {
+    await requestToPromise(indexedDB.deleteDatabase(`${DB_NAME_PREFIX}${profileId}`));
+  }
+
+  async getAll(): Promise<CachedItem[]> {
+    const transaction = this.db.transaction(ITEMS_STORE, "readonly");
+    return requestToPromise(
+      transaction.objectStore(ITEMS_STORE).getAll() as IDBRequest<CachedItem[]>
+    );
+  }
+
+  async put(entries: CachedItem[]): Promise<void> {
+    if (entries.length === 0) return;
+    const transaction = this.db.transaction(ITEMS_STORE, "readwrite");
+    const store = transaction.objectStore(ITEMS_STORE);
+    entries.forEach((entry) => store.put(entry));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Delete items, with the files of the ones that are resources
+   */
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const transaction = this.db.transaction([ITEMS_STORE, RESOURCES_STORE], "readwrite");
+    const items = transaction.objectStore(ITEMS_STORE);
+    const resources = transaction.objectStore(RESOURCES_STORE);
+    ids.forEach((id) => {
+      items.delete(id);
+      resources.delete(id);
+    });
+    await transactionDone(transaction);
+  }
+
+  async getResource(id: string): Promise<CachedResource | null> {
+    const transaction = this.db.transaction(RESOURCES_STORE, "readonly");
+    const entry = await requestToPromise(
+      transaction.objectStore(RESOURCES_STORE).get(id) as IDBRequest<CachedResource | undefined>
+    );
+    return entry ?? null;
+  }
+
+  async putResource(entry: CachedResource): Promise<void> {
+    const transaction = this.db.transaction(RESOURCES_STORE, "readwrite");
+    transaction.objectStore(RESOURCES_STORE).put(entry);
+    await transactionDone(transaction);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,261 @@
+import type { Item } from "joplin-sync";
+import { joplinApi, type SaveResult } from "./joplinApi";
+import { MARKUP_LANGUAGE } from "./markdownRenderer";
+import type { JoplinItem } from "../types/joplinItems";
+
+const NOTE_TYPE = 1;
+const FOLDER_TYPE = 2;
+const RESOURCE_TYPE = 4;
+const TAG_TYPE = 5;
+const NOTE_TAG_TYPE = 6;
+
+export interface OperationResult {
+  // Items written to the sync target
+  updated: Item[];
+  // Ids of items removed from the sync target
+  deletedIds: string[];
+  // Items left untouched because they changed on the sync target in the meantime
+  skippedCount: number;
+}
+
+/**
+ * Joplin item ids are UUIDs without dashes
+ */
+export const createItemId = (): string => crypto.randomUUID().replace(/-/g, "");
+
+/**
+ * Create a Markdown note in a notebook, empty unless `fields` sets the body
+ * or overrides other defaults
+ */
+export async function createNote(
+  parentId: string,
+  title: string = "",
+  fields: Partial<JoplinItem> = {}
+): Promise<Item> {
+  const now = Date.now();
+  const note = {
+    id: createItemId(),
+    parent_id: parentId,
+    title,
+    body: "",
+    created_time: now,
+    updated_time: now,
+    is_conflict: 0,
+    latitude: 0,
+    longitude: 0,
+    altitude: 0,
+    author: "",
+    source_url: "",
+    is_todo: 0,
+    todo_due: 0,
+    todo_completed: 0,
+    source: "joplin-web",
+    source_application: "",
+    application_data: "",
+    order: 0,
+    user_created_time: now,
+    user_updated_time: now,
+    encryption_cipher_text: "",
+    encryption_applied: 0,
+    markup_language: MARKUP_LANGUAGE.MARKDOWN,
+    is_shared: 0,
+    share_id: "",
+    conflict_original_id: "",
+    master_key_id: "",
+    user_data: "",
+    deleted_time: 0,
+    ...fields,
+    type_: NOTE_TYPE,
+  } as JoplinItem;
+  return joplinApi.createItem(note);
+}
+
+/**
+ * Create a notebook, at the top level when `parentId` is empty
+ */
+export async function createFolder(parentId: string, title: string): Promise<Item> {
+  const now = Date.now();
+  const folder = {
+    id: createItemId(),
+    title,
+    created_time: now,
+    updated_time: now,
+    user_created_time: now,
+    user_updated_time: now,
+    encryption_cipher_text: "",
+    encryption_applied: 0,
+    parent_id: parentId,
+    is_shared: 0,
+    share_id: "",
+    master_key_id: "",
+    icon: "",
+    user_data: "",
+    deleted_time: 0,
+    type_: FOLDER_TYPE,
+  } as JoplinItem;
+  return joplinApi.createItem(folder);
+}
+
+export async function createTag(title: string): Promise<Item> {
+  const now = Date.now();
+  const tag = {
+    id: createItemId(),
+    title,
+    created_time: now,
+    updated_time: now,
+    user_created_time: now,
+    user_updated_time: now,
+    encryption_cipher_text: "",
+    encryption_applied: 0,
+    is_shared: 0,
+    parent_id: "",
+    user_data: "",
+    type_: TAG_TYPE,
+  } as JoplinItem;
+  return joplinApi.createItem(tag);
+}
+
+/**
+ * Tag a note by creating the note_tag link item
+ */
+export async function tagNote(noteId: string, tagId: string): Promise<Item> {
+  const now = Date.now();
+  const link = {
+    id: createItemId(),
+    note_id: noteId,
+    tag_id: tagId,
+    created_time: now,
+    updated_time: now,
+    user_created_time: now,
+    user_updated_time: now,
+    encryption_cipher_text: "",
+    encryption_applied: 0,
+    is_shared: 0,
+    type_: NOTE_TAG_TYPE,
+  } as JoplinItem;
+  return joplinApi.createItem(link);
+}
+
+/**
+ * Upload a file as a resource, to be linked from notes as `:/<id>`
+ */
+export async function createResource(fileName: string, mime: string, bytes: Uint8Array): Promise<Item> {
+  const now = Date.now();
+  const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : "";
+  const resource = {
+    id: createItemId(),
+    title: fileName,
+    mime,
+    filename: "",
+    created_time: now,
+    updated_time: now,
+    user_created_time: now,
+    user_updated_time: now,
+    file_extension: extension,
+    encryption_cipher_text: "",
+    encryption_applied: 0,
+    encryption_blob_encrypted: 0,
+    size: bytes.length,
+    is_shared: 0,
+    share_id: "",
+    master_key_id: "",
+    user_data: "",
+    blob_updated_time: now,
+    ocr_text: "",
+    ocr_details: "",
+    ocr_status: 0,
+    ocr_error: "",
+    type_: RESOURCE_TYPE,
+  } as JoplinItem;
+  return joplinApi.createResource(resource, bytes);
+}
+
+/**
+ * Subfolders and notes of a folder, recursively
+ */
+export function collectDescendants(items: Item[], folderId: string): Item[] {
+  const descendants: Item[] = [];
+  const pending = [folderId];
+  const visited = new Set(pending);
+
+  while (pending.length > 0) {
+    const parentId = pending.pop();
+    items.forEach((item) => {
+      if (item.parent_id !== parentId) return;
+      if (item.type_ !== NOTE_TYPE && item.type_ !== FOLDER_TYPE) return;
+
+      descendants.push(item);
+      if (item.type_ === FOLDER_TYPE && !visited.has(item.id)) {
+        visited.add(item.id);
+        pending.push(item.id);
+      }
+    });
+  }
+  return descendants;
+}
+
+export async function renameItem(item: Item, title: string): Promise<SaveResult> {
+  return joplinApi.saveItem(item, { title });
+}
+
+/**
+ * Move a note or notebook to another notebook (notebooks can also move to the top level)
+ */
+export async function moveItem(item: Item, parentId: string, items: Item[]): Promise<SaveResult> {
+  if (item.type_ === NOTE_TYPE && !parentId) {
+    throw new Error("Notes must belong to a notebook");
+  }
+  if (
+    item.type_ === FOLDER_TYPE &&
+    (parentId === item.id || collectDescendants(items, item.id).some((child) => child.id === parentId))
+  ) {
+    throw new Error("A notebook can't be moved into itself or one of its sub-notebooks");
+  }
+  return joplinApi.saveItem(item, { parent_id: parentId });
+}
+
+/**
+ * Tick or untick a to-do. Joplin stores the completion time, 0 meaning open.
+ */
+export async function setTodoCompleted(todo: Item, completed: boolean): Promise<SaveResult> {
+  return joplinApi.saveItem(todo, { todo_completed: completed ? Date.now() : 0 });
+}
+
+/**
+ * Move a note, or a notebook with everything in it, to the trash by setting
+ * `deleted_time`, the same way the desktop client does
+ */
+export async function trashItem(item: Item, items: Item[]): Promise<OperationResult> {
+  const targets =
+    item.type_ === FOLDER_TYPE ? [item, ...collectDescendants(items, item.id)] : [item];
+  const result: OperationResult = { updated: [], deletedIds: [], skippedCount: 0 };
+  const now = Date.now();
+
+  for (const target of targets) {
+    const saved = await joplinApi.saveItem(target, { deleted_time: now });
+    if (saved.status === "saved") {
+      result.updated.push(saved.item);
+    } else {
+      result.skippedCount++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Delete a note, or a notebook with everything in it, from the sync target.
+ * Tag links of the deleted notes are removed too, like the desktop client does.
+ * @param items Every item of the library, fully loaded so no tag link is missed
+ */
+export async function deleteItemPermanently(item: Item, items: Item[]): Promise<OperationResult> {
+  const targets =
+    item.type_ === FOLDER_TYPE ? [item, ...collectDescendants(items, item.id)] : [item];
+  const noteIds = new Set(targets.filter((target) => target.type_ === NOTE_TYPE).map((note) => note.id));
+  const noteTagIds = items
+    .filter((link) => link.type_ === NOTE_TAG_TYPE && noteIds.has((link as JoplinItem).note_id || ""))
+    .map((link) => link.id);
+
+  const deletedIds = [...targets.map((target) => target.id), ...noteTagIds];
+  await joplinApi.deleteItems(deletedIds);
+  return { updated: [], deletedIds, skippedCount: 0 };
+}
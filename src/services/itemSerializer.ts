@@ -0,0 +1,98 @@
+import type { JoplinItem } from "../types/joplinItems";
+
+const NOTE_TYPE = 1;
+
+// Fields written as ISO 8601 dates instead of unix milliseconds
+const TIME_FIELDS = ["created_time", "updated_time", "user_created_time", "user_updated_time"];
+// Fields written before the property list rather than as `key: value` lines
+const CONTENT_FIELDS = ["title", "body"];
+
+const formatValue = (key: string, value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (TIME_FIELDS.includes(key)) {
+    return typeof value === "number" && value > 0 ? new Date(value).toISOString() : "";
+  }
+  if (typeof value === "boolean") return value ? "1" : "0";
+  if (typeof value === "object") return JSON.stringify(value);
+  // Property values are single lines
+  return String(value).replace(/\r/g, "\\r").replace(/\n/g, "\\n");
+};
+
+/**
+ * Serialize an item in Joplin's sync format: the title, a blank line, the body,
+ * a blank line, then one `key: value` line per property with `type_` last
+ */
+export function serializeItem(item: JoplinItem): string {
+  const props = Object.keys(item)
+    .filter((key) => !CONTENT_FIELDS.includes(key) && key !== "type_")
+    .map((key) => `${key}: ${formatValue(key, (item as Record<string, unknown>)[key])}`);
+  props.push(`type_: ${item.type_}`);
+
+  const sections: string[] = [];
+  if (typeof item.title === "string") sections.push(item.title.replace(/\r?\n/g, " "));
+  if (item.body) sections.push(item.body);
+  sections.push(props.join("\n"));
+  return sections.join("\n\n");
+}
+
+// Fields kept as strings even when they look like numbers
+const STRING_FIELDS = [
+  "id",
+  "title",
+  "body",
+  "author",
+  "source_url",
+  "source",
+  "source_application",
+  "application_data",
+  "user_data",
+  "icon",
+  "mime",
+  "filename",
+  "file_extension",
+  "encryption_cipher_text",
+  "title_diff",
+  "body_diff",
+  "metadata_diff",
+];
+
+const parseValue = (key: string, value: string): unknown => {
+  if (TIME_FIELDS.includes(key)) {
+    return value ? Date.parse(value) : 0;
+  }
+  if (!STRING_FIELDS.includes(key) && !key.endsWith("_id") && /^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value.replace(/\\n/g, "\n").replace(/\\r/g, "\r");
+};
+
+/**
+ * Parse an item in Joplin's sync format, the reverse of serializeItem()
+ */
+export function unserializeItem(content: string): JoplinItem {
+  const lines = content.split("\n");
+  const item: Record<string, unknown> = {};
+  let index = lines.length - 1;
+
+  // Properties are read from the end up to the first blank line
+  for (; index >= 0; index--) {
+    const line = lines[index].trim();
+    if (line === "") break;
+
+    const separator = line.indexOf(":");
+    if (separator < 0) throw new Error(`Invalid property format: ${line}`);
+    const key = line.slice(0, separator).trim();
+    item[key] = parseValue(key, line.slice(separator + 1).trim());
+  }
+
+  if (item.type_ === undefined) throw new Error("Missing required property: type_");
+
+  // What's left is the title, a blank line and the body
+  const contentLines = lines.slice(0, Math.max(index, 0));
+  if (contentLines.length > 0) {
+    item.title = contentLines[0];
+    if (contentLines.length > 2) item.body = contentLines.slice(2).join("\n");
+  }
+  if (item.type_ === NOTE_TYPE && item.body === undefined) item.body = "";
+  return item as JoplinItem;
+}
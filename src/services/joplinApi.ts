@@ -1,9 +1,63 @@
 import * as JoplinSync from "joplin-sync";
 import type { Credentials } from "../components/CredentialForm";
 import type { Item } from "joplin-sync";
+import type { JoplinItem } from "../types/joplinItems";
+import { serializeItem, unserializeItem } from "./itemSerializer";
+import { encryptionService, type MasterKey } from "./encryptionService";
+import { offlineState } from "./offlineState";
+import type { ItemCache } from "./itemCache";
 
 const { StorageAPI, Logger, LogLevel } = JoplinSync as any;
 
+const NOTE_TYPE = 1;
+const MASTER_KEY_TYPE = 9;
+
+// Fields left in clear text when an item is encrypted, the same ones the desktop client keeps
+const UNENCRYPTED_FIELDS = [
+  "id",
+  "note_id",
+  "tag_id",
+  "parent_id",
+  "share_id",
+  "updated_time",
+  "deleted_time",
+  "type_",
+];
+
+const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export type SaveResult =
+  | { status: "saved"; item: Item }
+  // The remote copy changed since the edited item was loaded
+  | { status: "conflict"; remote: Item }
+  // The item no longer exists on the sync target
+  | { status: "deleted" };
+
+export interface ReplayResult {
+  // Items uploaded from the queue, conflict copies included
+  updated: Item[];
+  deletedIds: string[];
+  // Offline edits that collided with a remote change and were saved as conflict copies
+  conflictCount: number;
+}
+
+/**
+ * The sync target's info.json. Fields not listed here are written back as they were.
+ */
+interface SyncInfo {
+  version: number;
+  masterKeys?: MasterKey[];
+  activeMasterKeyId?: { value: string; updatedTime: number };
+  e2ee?: { value: boolean; updatedTime: number };
+}
+
 // Disable verbose logging, only allow errors
 if (Logger && LogLevel) {
   console.log("Setting JoplinSync log level to ERROR");
@@ -14,6 +68,11 @@ export class JoplinApiService {
   private storage: typeof StorageAPI.prototype | null = null;
   private initialized = false;
   private oauthFlowHandler: ((authUrl: string) => Promise<string>) | null = null;
+  private itemsFetchedListeners = new Set<(items: Item[]) => void>();
+  // Encrypted copies of the items decrypted this session, by id
+  private encryptedOriginals = new Map<string, Item>();
+  // Downloaded resource files of the active profile, for use offline
+  private resourceCache: ItemCache | null = null;
 
   /**
    * Set a custom OAuth flow handler for services like OneDrive and Google Drive
@@ -23,6 +82,13 @@ export class JoplinApiService {
     this.oauthFlowHandler = handler;
   }
 
+  /**
+   * Keep downloaded resource files in the profile's cache, null to stop caching
+   */
+  setResourceCache(cache: ItemCache | null): void {
+    this.resourceCache = cache;
+  }
+
   async connect(credentials: Credentials): Promise<void> {
     try {
       const { type } = credentials;
@@ -80,6 +146,7 @@ export class JoplinApiService {
 
       await this.storage.init();
       this.initialized = true;
+      await this.loadSyncInfo();
     } catch (error) {
       console.error("[JoplinApi.connect] Failed to connect:", error);
       this.storage = null;
@@ -100,6 +167,23 @@ export class JoplinApiService {
     }
   }
 
+  /**
+   * Listen for items fetched with content through getItems()/getItem()
+   * @param listener Called with every batch of unserialized items
+   * @returns Function that removes the listener
+   */
+  onItemsFetched(listener: (items: Item[]) => void): () => void {
+    this.itemsFetchedListeners.add(listener);
+    return () => {
+      this.itemsFetchedListeners.delete(listener);
+    };
+  }
+
+  private notifyItemsFetched(items: Item[]): void {
+    if (items.length === 0) return;
+    this.itemsFetchedListeners.forEach((listener) => listener(items));
+  }
+
   /**
    * List all items (metadata only, no content)
    * This is fast and efficient for checking what exists
@@ -142,7 +226,11 @@ export class JoplinApiService {
       });
       
       // Filter out null items (items that failed to unserialize)
-      return items.filter((item: Item | null): item is Item => item !== null);
+      const validItems = await this.decryptItems(
+        items.filter((item: Item | null): item is Item => item !== null)
+      );
+      this.notifyItemsFetched(validItems);
+      return validItems;
     } catch (error) {
       console.error("[JoplinApi.getItems] Error:", error);
       throw new Error(
@@ -163,7 +251,10 @@ export class JoplinApiService {
       });
       
       // Return first valid item (not null)
-      const validItems = items.filter((item: Item | null): item is Item => item !== null);
+      const validItems = await this.decryptItems(
+        items.filter((item: Item | null): item is Item => item !== null)
+      );
+      this.notifyItemsFetched(validItems);
       return validItems.length > 0 ? validItems[0] : null;
     } catch (error) {
       console.error(`[JoplinApi.getItem] Error getting item ${id}:`, error);
@@ -172,6 +263,262 @@ export class JoplinApiService {
     }
   }
 
+  /**
+   * Fetch the binary content of a resource, stored under `.resource/<id>` on the sync target.
+   * Files downloaded before are read from the resource cache, also when offline.
+   * @param resource Resource metadata item (type 4), used for the blob's mime type
+   */
+  async getResourceBlob(resource: JoplinItem): Promise<Blob> {
+    try {
+      let bytes = await this.getResourceFile(resource);
+      if (resource.encryption_blob_encrypted) {
+        bytes = await encryptionService.decryptFile(new TextDecoder().decode(bytes));
+      }
+
+      return new Blob([bytes], {
+        type: resource.mime || "application/octet-stream",
+      });
+    } catch (error) {
+      console.error(`[JoplinApi.getResourceBlob] Error getting resource ${resource.id}:`, error);
+      throw new Error(
+        `Failed to get resource blob: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Apply changes to an item and upload it to the sync target.
+   * The upload is refused when the remote copy was updated since `base` was loaded.
+   * Offline, the edit is queued and the edited item returned as saved.
+   * @param base Item as it was when editing started
+   * @param changes Fields to change, `updated_time` is bumped automatically
+   */
+  async saveItem(base: Item, changes: Partial<JoplinItem>): Promise<SaveResult> {
+    if (!offlineState.isOnline()) {
+      // updated_time stays the one of the remote copy, so the replay can detect conflicts
+      const item: JoplinItem = { ...base, ...changes, user_updated_time: Date.now() };
+      this.keepForStorage(item);
+      offlineState.enqueue({ kind: "save", base, changes });
+      this.notifyItemsFetched([item]);
+      return { status: "saved", item };
+    }
+
+    try {
+      const [remote] = await this.getItems([base.id]);
+      if (!remote) {
+        return { status: "deleted" };
+      }
+      if (remote.updated_time !== base.updated_time) {
+        return { status: "conflict", remote };
+      }
+
+      const now = Date.now();
+      const item: JoplinItem = {
+        ...base,
+        ...changes,
+        updated_time: now,
+        user_updated_time: now,
+      };
+      await this.getFileApi().put(`${item.id}.md`, this.serializeForSync(item));
+
+      this.notifyItemsFetched([item]);
+      return { status: "saved", item };
+    } catch (error) {
+      console.error(`[JoplinApi.saveItem] Error saving item ${base.id}:`, error);
+      throw new Error(
+        `Failed to save item: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Upload a new item to the sync target, or queue it while offline
+   */
+  async createItem(item: JoplinItem): Promise<Item> {
+    if (!offlineState.isOnline()) {
+      this.keepForStorage(item);
+      offlineState.enqueue({ kind: "create", item });
+      this.notifyItemsFetched([item]);
+      return item;
+    }
+
+    try {
+      await this.getFileApi().put(`${item.id}.md`, this.serializeForSync(item));
+      this.notifyItemsFetched([item]);
+      return item;
+    } catch (error) {
+      console.error(`[JoplinApi.createItem] Error creating item ${item.id}:`, error);
+      throw new Error(
+        `Failed to create item: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Upload a new resource: the file goes to `.resource/<id>`, encrypted like the
+   * items when the sync target uses encryption, then the metadata item
+   */
+  async createResource(resource: JoplinItem, bytes: Uint8Array): Promise<Item> {
+    try {
+      if (!offlineState.isOnline()) {
+        throw new Error("Attachments can't be uploaded while offline");
+      }
+
+      const masterKeyId = encryptionService.getStatus().activeMasterKeyId;
+      if (masterKeyId && !encryptionService.isUnlocked(masterKeyId)) {
+        throw new Error("This sync target uses encryption, unlock the master key to make changes");
+      }
+
+      // The file API sends binary content to the target as it is
+      const content = masterKeyId ? encryptionService.encryptFile(bytes, masterKeyId) : bytes;
+      await this.getFileApi().put(`.resource/${resource.id}`, content);
+
+      return await this.createItem({
+        ...resource,
+        encryption_blob_encrypted: masterKeyId ? 1 : 0,
+      });
+    } catch (error) {
+      console.error(`[JoplinApi.createResource] Error creating resource ${resource.id}:`, error);
+      throw new Error(
+        `Failed to create resource: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Permanently delete items from the sync target. Clients treat a missing
+   * item file as a remote deletion on their next sync.
+   */
+  async deleteItems(ids: string[]): Promise<void> {
+    if (!offlineState.isOnline()) {
+      offlineState.enqueue({ kind: "delete", ids });
+      return;
+    }
+
+    try {
+      const fileApi = this.getFileApi();
+      for (const id of ids) {
+        await fileApi.delete(`${id}.md`);
+      }
+    } catch (error) {
+      console.error("[JoplinApi.deleteItems] Error:", error);
+      throw new Error(
+        `Failed to delete items: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Upload the edits queued while offline, oldest first. A note edited or deleted
+   * elsewhere in the meantime is saved as a conflict copy, like the desktop client
+   * does; queued changes to other kinds of items are dropped then. Stops at the
+   * first failure, leaving the rest of the queue for the next attempt.
+   */
+  async replayOfflineEdits(): Promise<ReplayResult> {
+    const result: ReplayResult = { updated: [], deletedIds: [], conflictCount: 0 };
+    // Items uploaded during this replay: later edits of the same item build on them
+    const replayed = new Map<string, Item>();
+
+    try {
+      const edits = await offlineState.getPendingEdits();
+      for (const edit of edits) {
+        if (!offlineState.isOnline()) break;
+
+        if (edit.kind === "save") {
+          const base = replayed.get(edit.base.id) ?? edit.base;
+          const saved = await this.saveItem(base, edit.changes);
+          if (saved.status === "saved") {
+            replayed.set(saved.item.id, saved.item);
+            result.updated.push(saved.item);
+          } else if (base.type_ === NOTE_TYPE) {
+            const now = Date.now();
+            const copy = await this.createItem({
+              ...base,
+              ...edit.changes,
+              id: crypto.randomUUID().replace(/-/g, ""),
+              is_conflict: 1,
+              conflict_original_id: base.id,
+              created_time: now,
+              updated_time: now,
+              user_created_time: now,
+              user_updated_time: now,
+            });
+            result.updated.push(copy);
+            result.conflictCount++;
+          }
+        } else if (edit.kind === "create") {
+          const created = await this.createItem(edit.item);
+          replayed.set(created.id, created);
+          result.updated.push(created);
+        } else {
+          await this.deleteItems(edit.ids);
+          result.deletedIds.push(...edit.ids);
+        }
+        offlineState.removeFirstEdit();
+      }
+      return result;
+    } catch (error) {
+      console.error("[JoplinApi.replayOfflineEdits] Error:", error);
+      throw new Error(
+        `Failed to upload offline edits: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Register the master keys remembered from the last connection, so cached
+   * items can be decrypted while the sync target is unreachable
+   */
+  restoreOfflineKeys(): void {
+    const { masterKeys, activeMasterKeyId } = offlineState.getSyncInfo();
+    encryptionService.addMasterKeys(masterKeys);
+    if (activeMasterKeyId) {
+      encryptionService.setActiveMasterKey(activeMasterKeyId);
+    }
+  }
+
+  /**
+   * Decrypt the items whose master key is unlocked. Items that can't be
+   * decrypted yet are returned as they are.
+   */
+  async decryptItems(items: Item[]): Promise<Item[]> {
+    encryptionService.addMasterKeys(
+      items.filter((item) => item.type_ === MASTER_KEY_TYPE) as unknown as MasterKey[]
+    );
+
+    return Promise.all(
+      items.map(async (item) => {
+        const cipherText = (item as JoplinItem).encryption_cipher_text;
+        if (!(item as JoplinItem).encryption_applied || !cipherText) return item;
+
+        try {
+          if (!encryptionService.isUnlocked(encryptionService.masterKeyIdOf(cipherText))) {
+            return item;
+          }
+          const plainItem = unserializeItem(await encryptionService.decryptString(cipherText));
+          this.encryptedOriginals.set(item.id, item);
+          return {
+            ...plainItem,
+            updated_time: item.updated_time,
+            encryption_cipher_text: "",
+            encryption_applied: 0,
+          } as Item;
+        } catch (error) {
+          console.error(`[JoplinApi.decryptItems] Error decrypting item ${item.id}:`, error);
+          return item;
+        }
+      })
+    );
+  }
+
+  /**
+   * The item as stored on the sync target: decrypted items are swapped back for
+   * their encrypted copy so plain text never reaches persistent storage
+   */
+  forStorage(item: Item): Item {
+    return this.encryptedOriginals.get(item.id) ?? item;
+  }
+
   async getNotes(): Promise<Item[]> {
     try {
       const items = await this.getItems();
@@ -212,6 +559,155 @@ export class JoplinApiService {
     }
   }
 
+  /**
+   * Turn on end-to-end encryption for the sync target. The existing master key is
+   * unlocked with the password, or a new one is created when the target has none.
+   * Items saved from then on are encrypted; existing items are left as they are
+   * until a client re-encrypts them.
+   */
+  async enableEncryption(password: string): Promise<void> {
+    try {
+      const fileApi = this.getFileApi();
+      const content = await fileApi.get("info.json");
+      const info: SyncInfo = content ? (JSON.parse(content) as SyncInfo) : { version: 3 };
+      const masterKeys: MasterKey[] = Array.isArray(info.masterKeys) ? info.masterKeys : [];
+
+      let activeKeyId: string = info.activeMasterKeyId?.value || "";
+      if (masterKeys.length > 0) {
+        encryptionService.addMasterKeys(masterKeys);
+        await encryptionService.unlock(password);
+        if (!masterKeys.some((key) => key.id === activeKeyId)) {
+          activeKeyId = masterKeys[masterKeys.length - 1].id;
+        }
+      } else {
+        const masterKey = await encryptionService.createMasterKey(password);
+        masterKeys.push(masterKey);
+        activeKeyId = masterKey.id;
+      }
+      if (!encryptionService.isUnlocked(activeKeyId)) {
+        throw new Error("Wrong master password");
+      }
+
+      const now = Date.now();
+      info.masterKeys = masterKeys;
+      info.activeMasterKeyId = { value: activeKeyId, updatedTime: now };
+      info.e2ee = { value: true, updatedTime: now };
+      await fileApi.put("info.json", JSON.stringify(info, null, "\t"));
+
+      encryptionService.setActiveMasterKey(activeKeyId);
+      offlineState.saveSyncInfo(masterKeys, activeKeyId);
+    } catch (error) {
+      console.error("[JoplinApi.enableEncryption] Error:", error);
+      throw new Error(
+        `Failed to enable encryption: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Serialize an item for upload, encrypted with the active master key when the
+   * sync target uses encryption. Only the fields clients need to sync and link
+   * items are left readable.
+   */
+  private serializeForSync(item: JoplinItem): string {
+    const masterKeyId = encryptionService.getStatus().activeMasterKeyId;
+    if (!masterKeyId || item.type_ === MASTER_KEY_TYPE) {
+      this.encryptedOriginals.delete(item.id);
+      return serializeItem(item);
+    }
+    if (!encryptionService.isUnlocked(masterKeyId)) {
+      throw new Error("This sync target uses encryption, unlock the master key to make changes");
+    }
+
+    const encrypted: Record<string, unknown> = {};
+    UNENCRYPTED_FIELDS.forEach((key) => {
+      const value = (item as Record<string, unknown>)[key];
+      if (value !== undefined) encrypted[key] = value;
+    });
+    encrypted.encryption_cipher_text = encryptionService.encryptString(
+      serializeItem({ ...item, encryption_cipher_text: "", encryption_applied: 0 }),
+      masterKeyId
+    );
+    encrypted.encryption_applied = 1;
+
+    this.encryptedOriginals.set(item.id, encrypted as Item);
+    return serializeItem(encrypted as JoplinItem);
+  }
+
+  /**
+   * Point `encryptedOriginals` at what will be uploaded for an item queued offline,
+   * so the cache doesn't keep the encrypted copy from before the edit
+   */
+  private keepForStorage(item: JoplinItem): void {
+    this.serializeForSync(item);
+  }
+
+  /**
+   * The file of a resource as stored on the sync target, from the resource cache
+   * when it holds the current version
+   */
+  private async getResourceFile(resource: JoplinItem): Promise<Uint8Array<ArrayBuffer>> {
+    const blobUpdatedTime = resource.blob_updated_time || 0;
+    const cached = await this.resourceCache?.getResource(resource.id).catch((error) => {
+      console.error("[JoplinApi.getResourceFile] Error reading the resource cache:", error);
+      return null;
+    });
+    if (cached && cached.blobUpdatedTime === blobUpdatedTime) {
+      return cached.data;
+    }
+    if (!offlineState.isOnline()) {
+      throw new Error("This attachment wasn't downloaded before going offline");
+    }
+
+    const content = await this.getFileApi().get(`.resource/${resource.id}`, {
+      target: "string",
+      encoding: "base64",
+    });
+    if (content === null || content === undefined) {
+      throw new Error("Resource content not found on sync target");
+    }
+
+    const data = base64ToBytes(content);
+    this.resourceCache
+      ?.putResource({ id: resource.id, blobUpdatedTime, data })
+      .catch((error) => console.error("[JoplinApi.getResourceFile] Error caching resource:", error));
+    return data;
+  }
+
+  /**
+   * Read the sync target's info.json: register the master keys it lists and the one
+   * new data is encrypted with. Older sync targets store master keys as type 9 items
+   * instead, which are picked up as they load.
+   */
+  private async loadSyncInfo(): Promise<void> {
+    try {
+      const content = await this.getFileApi().get("info.json");
+      if (!content) return;
+      const info = JSON.parse(content) as SyncInfo;
+      const masterKeys: MasterKey[] = Array.isArray(info.masterKeys) ? info.masterKeys : [];
+      const activeKeyId: string | null =
+        info.e2ee?.value && info.activeMasterKeyId?.value ? info.activeMasterKeyId.value : null;
+
+      encryptionService.addMasterKeys(masterKeys);
+      if (activeKeyId) {
+        encryptionService.setActiveMasterKey(activeKeyId);
+      }
+      offlineState.saveSyncInfo(masterKeys, activeKeyId);
+    } catch (error) {
+      console.error("[JoplinApi.loadSyncInfo] Error:", error);
+    }
+  }
+
+  /**
+   * Joplin FileApi of the sync target, for raw paths that are not items (e.g. `.resource/`)
+   */
+  private getFileApi() {
+    if (!this.storage || !this.initialized) {
+      throw new Error("Storage not initialized. Call connect() first.");
+    }
+    return this.storage.fileApi;
+  }
+
   isInitialized(): boolean {
     return this.initialized;
   }
@@ -220,6 +716,9 @@ export class JoplinApiService {
     try {
       this.storage = null;
       this.initialized = false;
+      this.encryptedOriginals.clear();
+      this.resourceCache = null;
+      encryptionService.reset();
     } catch (error) {
       console.error("[JoplinApi.disconnect] Error:", error);
     }
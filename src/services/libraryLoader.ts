@@ -0,0 +1,152 @@
+import type { Item } from "joplin-sync";
+import { joplinApi } from "./joplinApi";
+
+const DEFAULT_BATCH_SIZE = 50;
+// Pause between background batches so the sync target and the UI get some air
+const BATCH_PAUSE_MS = 200;
+
+export interface LoaderProgress {
+  loaded: number;
+  total: number;
+}
+
+interface Waiter {
+  ids: Set<string>;
+  items: Item[];
+  resolve: (items: Item[]) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetches the content of a library in background batches and streams it to the UI.
+ * Items that are needed right away can be moved to the front of the queue.
+ */
+export class LibraryLoader {
+  private queue: string[] = [];
+  private loaded = new Set<string>();
+  private total = 0;
+  private running = false;
+  private stopped = false;
+  // Skip the pause between batches, e.g. while a folder waits for its children
+  private urgent = false;
+  private waiters: Waiter[] = [];
+  private onBatch: (items: Item[]) => void;
+  private onProgress: (progress: LoaderProgress) => void;
+  private batchSize: number;
+
+  /**
+   * @param onBatch Called with the items of every fetched batch
+   * @param onProgress Called after every batch with the loaded/total counts
+   */
+  constructor(
+    onBatch: (items: Item[]) => void,
+    onProgress: (progress: LoaderProgress) => void,
+    batchSize: number = DEFAULT_BATCH_SIZE
+  ) {
+    this.onBatch = onBatch;
+    this.onProgress = onProgress;
+    this.batchSize = batchSize;
+  }
+
+  /**
+   * Start loading every id that isn't already loaded
+   * @param ids All item ids of the library, in loading order
+   * @param loadedIds Ids whose content is already available
+   */
+  start(ids: string[], loadedIds: string[] = []): void {
+    this.loaded = new Set(loadedIds);
+    this.queue = ids.filter((id) => !this.loaded.has(id));
+    this.total = ids.length;
+    this.stopped = false;
+    this.reportProgress();
+    this.run();
+  }
+
+  /**
+   * Fetch the given items before anything else
+   * @returns Promise resolved once all of them have been fetched (or failed to),
+   * with the items that were fetched for this call. Ids that were already loaded
+   * are not fetched again and not included.
+   */
+  ensureLoaded(ids: string[]): Promise<Item[]> {
+    // Nothing would fetch them anymore
+    if (this.stopped) return Promise.resolve([]);
+
+    const missing = ids.filter((id) => !this.loaded.has(id));
+    if (missing.length === 0) return Promise.resolve([]);
+
+    // Ids that aren't part of the listing are fetched too (e.g. linked notes)
+    const missingSet = new Set(missing);
+    this.queue = [...missing, ...this.queue.filter((id) => !missingSet.has(id))];
+
+    const promise = new Promise<Item[]>((resolve) => {
+      this.waiters.push({ ids: missingSet, items: [], resolve });
+    });
+    this.run();
+    return promise;
+  }
+
+  /**
+   * Load the rest of the library without pausing between batches
+   */
+  hurry(): void {
+    this.urgent = true;
+    this.run();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.queue = [];
+    this.waiters.forEach((waiter) => waiter.resolve(waiter.items));
+    this.waiters = [];
+  }
+
+  private async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      while (this.queue.length > 0 && !this.stopped) {
+        const batch = this.queue.splice(0, this.batchSize);
+        try {
+          const items = await joplinApi.getItems(batch);
+          if (this.stopped) return;
+          this.onBatch(items);
+          this.waiters.forEach((waiter) => {
+            waiter.items.push(...items.filter((item) => waiter.ids.has(item.id)));
+          });
+        } catch (error) {
+          console.error("[LibraryLoader] Failed to load batch:", error);
+        }
+
+        // Failed items are marked as loaded too, otherwise waiters never resolve
+        batch.forEach((id) => this.loaded.add(id));
+        this.resolveWaiters();
+        this.reportProgress();
+
+        if (this.waiters.length === 0 && !this.urgent) {
+          await sleep(BATCH_PAUSE_MS);
+        }
+      }
+    } finally {
+      this.running = false;
+      if (this.queue.length === 0) this.urgent = false;
+    }
+  }
+
+  private resolveWaiters(): void {
+    this.waiters = this.waiters.filter((waiter) => {
+      const done = Array.from(waiter.ids).every((id) => this.loaded.has(id));
+      if (done) waiter.resolve(waiter.items);
+      return !done;
+    });
+  }
+
+  private reportProgress(): void {
+    this.onProgress({
+      loaded: Math.min(this.loaded.size, this.total),
+      total: this.total,
+    });
+  }
+}
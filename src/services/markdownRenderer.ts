@@ -0,0 +1,176 @@
+import MarkdownIt from "markdown-it";
+import markdownItFootnote from "markdown-it-footnote";
+import markdownItMark from "markdown-it-mark";
+import markdownItTaskLists from "markdown-it-task-lists";
+import DOMPurify from "dompurify";
+import type { JoplinItem } from "../types/joplinItems";
+
+// Joplin's markup_language values
+export const MARKUP_LANGUAGE = {
+  MARKDOWN: 1,
+  HTML: 2,
+} as const;
+
+/**
+ * An attachment referenced by a note as `:/<resourceId>`
+ */
+export interface ResolvedResource {
+  id: string;
+  item: JoplinItem;
+  title: string;
+  mime: string;
+  size?: number;
+  // Object URL of the blob, only fetched for images
+  url?: string;
+}
+
+export type ResourceMap = Map<string, ResolvedResource>;
+
+const RESOURCE_URL_REGEX = /^:\/([0-9a-zA-Z]{32})$/;
+const NOTE_LINK_REGEX = /^:\/([0-9a-zA-Z]{32})(?:#(.*))?$/;
+
+/**
+ * Collect the ids of all `:/<id>` links in a note body
+ */
+export function extractLinkedIds(body: string): string[] {
+  const ids = new Set<string>();
+  for (const match of body.matchAll(/:\/([0-9a-zA-Z]{32})/g)) {
+    ids.add(match[1]);
+  }
+  return Array.from(ids);
+}
+
+export const isImageMime = (mime?: string): boolean => !!mime && mime.startsWith("image/");
+
+// Same defaults as the Joplin desktop renderer: inline HTML is allowed
+// (it gets sanitized below) and single newlines become line breaks
+const md = new MarkdownIt({
+  html: true,
+  linkify: true,
+  breaks: true,
+})
+  .use(markdownItMark)
+  .use(markdownItFootnote)
+  .use(markdownItTaskLists, { label: true });
+
+/**
+ * Anchor id for a heading, in the same spirit as Joplin's heading slugs
+ */
+export function slugify(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s+/g, "-");
+}
+
+// Give headings ids so `#anchor` links can target them
+md.core.ruler.push("heading_ids", (state) => {
+  const used = new Map<string, number>();
+  state.tokens.forEach((token, i) => {
+    if (token.type !== "heading_open") return;
+    const slug = slugify(state.tokens[i + 1]?.content || "") || "section";
+    const count = used.get(slug) || 0;
+    used.set(slug, count + 1);
+    token.attrSet("id", count ? `${slug}-${count}` : slug);
+  });
+});
+
+// Open external links in a new tab so the viewer state is kept
+const defaultLinkOpen =
+  md.renderer.rules.link_open ||
+  ((tokens, idx, options, _env, self) => self.renderToken(tokens, idx, options));
+
+md.renderer.rules.link_open = (tokens, idx, options, env, self) => {
+  const href = String(tokens[idx].attrGet("href") || "");
+  if (/^https?:\/\//i.test(href)) {
+    tokens[idx].attrSet("target", "_blank");
+    tokens[idx].attrSet("rel", "noopener noreferrer");
+  }
+  return defaultLinkOpen(tokens, idx, options, env, self);
+};
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Resources of the note currently being sanitized, read by the hook below.
+// sanitize() is synchronous so this is only set for the duration of one call.
+let activeResources: ResourceMap | null = null;
+
+// Rewrite `:/<id>` links once their attributes have been sanitized, so blob:
+// URLs don't have to be allowed for arbitrary note content. Ids that are not
+// known attachments are treated as links to other notes.
+DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+  if (!activeResources) return;
+
+  if (node.tagName === "IMG") {
+    const match = (node.getAttribute("src") || "").match(RESOURCE_URL_REGEX);
+    if (!match) return;
+
+    const resource = activeResources.get(match[1]);
+    node.setAttribute("data-resource-id", match[1]);
+    if (resource?.url) {
+      node.setAttribute("src", resource.url);
+      if (!node.getAttribute("alt")) node.setAttribute("alt", resource.title);
+    } else {
+      node.removeAttribute("src");
+      node.classList.add("resource-loading");
+    }
+  } else if (node.tagName === "A") {
+    const match = (node.getAttribute("href") || "").match(NOTE_LINK_REGEX);
+    if (!match) return;
+
+    const resource = activeResources.get(match[1]);
+    if (!resource) {
+      node.setAttribute("data-note-id", match[1]);
+      if (match[2]) node.setAttribute("data-anchor", safeDecode(match[2]));
+      node.classList.add("note-link");
+      return;
+    }
+
+    node.setAttribute("data-resource-id", resource.id);
+    node.classList.add("resource-link");
+    const meta = node.ownerDocument.createElement("span");
+    meta.className = "resource-meta";
+    meta.textContent = resource.size !== undefined
+      ? `${resource.mime}, ${(resource.size / 1024).toFixed(2)} KB`
+      : resource.mime;
+    node.appendChild(meta);
+  }
+});
+
+/**
+ * Sanitize rendered HTML before it is inserted into the DOM
+ * @param resources Attachments to substitute for `:/<id>` links
+ */
+export function sanitizeHtml(html: string, resources?: ResourceMap): string {
+  activeResources = resources ?? new Map();
+  try {
+    return DOMPurify.sanitize(html, {
+      ADD_ATTR: ["target"],
+      FORBID_TAGS: ["style", "form"],
+    });
+  } finally {
+    activeResources = null;
+  }
+}
+
+/**
+ * Render a note body to sanitized HTML
+ * @param body Raw note body
+ * @param markupLanguage Joplin markup_language of the note (Markdown by default)
+ * @param resources Attachments referenced by the note
+ */
+export function renderNoteBody(
+  body: string,
+  markupLanguage: number = MARKUP_LANGUAGE.MARKDOWN,
+  resources?: ResourceMap
+): string {
+  const html = markupLanguage === MARKUP_LANGUAGE.HTML ? body : md.render(body);
+  return sanitizeHtml(html, resources);
+}
@@ -0,0 +1,150 @@
+import type { Item } from "joplin-sync";
+import { encryptionService, type MasterKey } from "./encryptionService";
+import { ProfileManager, type OfflineState } from "./profileManager";
+import type { JoplinItem } from "../types/joplinItems";
+
+/**
+ * A write made while offline, replayed once the sync target is reachable again
+ */
+export type QueuedEdit =
+  | { kind: "save"; base: Item; changes: Partial<JoplinItem> }
+  | { kind: "create"; item: JoplinItem }
+  | { kind: "delete"; ids: string[] };
+
+export interface OfflineStatus {
+  online: boolean;
+  pendingCount: number;
+}
+
+// Prefix of Joplin's encrypted data format
+const ENCRYPTED_PREFIX = "JED";
+
+/**
+ * Tracks connectivity and the edits of the active profile waiting to be
+ * uploaded. The queue is kept per profile by ProfileManager, so edits made
+ * offline survive a reload.
+ */
+export class OfflineStateService {
+  private profileId: string | null = null;
+  private state: OfflineState = { pendingEdits: [], masterKeys: [], activeMasterKeyId: null };
+  private listeners = new Set<() => void>();
+  private status: OfflineStatus = { online: true, pendingCount: 0 };
+
+  constructor() {
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", () => this.updateStatus());
+      window.addEventListener("offline", () => this.updateStatus());
+    }
+    this.updateStatus();
+  }
+
+  /**
+   * Switch to the offline state of a profile, or none on logout. Sync info read
+   * while connecting a new profile, before its id was known, is kept for it.
+   */
+  setProfile(profileId: string | null): void {
+    if (profileId === this.profileId) return;
+    const previous = this.state;
+    this.profileId = profileId;
+    this.state = profileId
+      ? ProfileManager.getOfflineState(profileId)
+      : { pendingEdits: [], masterKeys: [], activeMasterKeyId: null };
+
+    if (profileId && this.state.masterKeys.length === 0 && previous.masterKeys.length > 0) {
+      this.saveSyncInfo(previous.masterKeys, previous.activeMasterKeyId);
+    }
+    this.updateStatus();
+  }
+
+  isOnline(): boolean {
+    return this.status.online;
+  }
+
+  /**
+   * Remember the master keys of the sync target so cached items can be decrypted offline
+   */
+  saveSyncInfo(masterKeys: MasterKey[], activeMasterKeyId: string | null): void {
+    this.state = { ...this.state, masterKeys, activeMasterKeyId };
+    this.persist();
+  }
+
+  getSyncInfo(): { masterKeys: MasterKey[]; activeMasterKeyId: string | null } {
+    return { masterKeys: this.state.masterKeys, activeMasterKeyId: this.state.activeMasterKeyId };
+  }
+
+  /**
+   * Queue an edit. On sync targets that use encryption it is stored encrypted,
+   * so plain text never reaches local storage.
+   */
+  enqueue(edit: QueuedEdit): void {
+    if (!this.profileId) throw new Error("No active profile to queue the edit for");
+
+    const serialized = JSON.stringify(edit);
+    const masterKeyId = this.state.activeMasterKeyId;
+    if (masterKeyId && !encryptionService.isUnlocked(masterKeyId)) {
+      throw new Error("This sync target uses encryption, unlock the master key to make changes");
+    }
+    this.state = {
+      ...this.state,
+      pendingEdits: [
+        ...this.state.pendingEdits,
+        masterKeyId ? encryptionService.encryptString(serialized, masterKeyId) : serialized,
+      ],
+    };
+    this.persist();
+  }
+
+  /**
+   * The queued edits, oldest first
+   */
+  async getPendingEdits(): Promise<QueuedEdit[]> {
+    const edits: QueuedEdit[] = [];
+    for (const entry of this.state.pendingEdits) {
+      const serialized = entry.startsWith(ENCRYPTED_PREFIX)
+        ? await encryptionService.decryptString(entry)
+        : entry;
+      edits.push(JSON.parse(serialized) as QueuedEdit);
+    }
+    return edits;
+  }
+
+  /**
+   * Drop the oldest queued edit once it has been replayed
+   */
+  removeFirstEdit(): void {
+    this.state = { ...this.state, pendingEdits: this.state.pendingEdits.slice(1) };
+    this.persist();
+  }
+
+  getStatus(): OfflineStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to connectivity and queue changes (compatible with useSyncExternalStore)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private persist(): void {
+    if (this.profileId) {
+      ProfileManager.saveOfflineState(this.profileId, this.state);
+    }
+    this.updateStatus();
+  }
+
+  private updateStatus(): void {
+    const online = typeof navigator === "undefined" || navigator.onLine;
+    const pendingCount = this.state.pendingEdits.length;
+    if (online === this.status.online && pendingCount === this.status.pendingCount) return;
+
+    this.status = { online, pendingCount };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const offlineState = new OfflineStateService();
@@ -158,3 +158,24 @@ export class OneDriveOAuthService {
     }
   }
 }
+
+/**
+ * Id of the signed-in user's drive, which tells the accounts a token can belong to apart
+ * @param authToken Token JSON, as stored in the credentials
+ * @returns undefined when the drive can't be read, e.g. with an expired token
+ */
+export async function fetchDriveId(authToken: string): Promise<string | undefined> {
+  try {
+    const { access_token } = JSON.parse(authToken) as OneDriveAuthToken;
+    const response = await fetch('https://graph.microsoft.com/v1.0/me/drive?$select=id', {
+      headers: { Authorization: `Bearer ${access_token}` },
+    });
+    if (!response.ok) {
+      throw new Error(`Drive request failed (${response.status})`);
+    }
+    return ((await response.json()) as { id: string }).id;
+  } catch (error) {
+    console.warn('Failed to read the OneDrive drive id:', error);
+    return undefined;
+  }
+}
@@ -1,8 +1,24 @@
-import type { Credentials } from "../components/CredentialForm";
+import type { Credentials, StorageType } from "../components/CredentialForm";
+import { ItemCache } from "./itemCache";
+import type { MasterKey } from "./encryptionService";
+import { fromProxyPath, upgradeLegacyProxyPath } from "./webdavProxy";
+import { deleteSyncFolder } from "./syncFolder";
+import {
+  credentialVault,
+  isPassphraseSealedData,
+  sealWithPassphrase,
+  unsealWithPassphrase,
+  type PassphraseSealedData,
+  type SealedData,
+} from "./credentialVault";
 
 const STORAGE_KEY_PREFIX = "joplin_profile_";
+const OFFLINE_KEY_PREFIX = "joplin_offline_";
 const ACTIVE_PROFILE_KEY = "joplin_active_profile";
 
+const PROFILE_BUNDLE_FORMAT = "joplin-web-profiles";
+const PROFILE_BUNDLE_VERSION = 1;
+
 export interface Profile {
   id: string;
   name: string;
@@ -12,13 +28,366 @@ export interface Profile {
   createdAt: number;
 }
 
+export interface ProfileExportOptions {
+  // Passwords and sign-in tokens, which are left out otherwise
+  includeSecrets: boolean;
+  // Encrypt the bundle with this passphrase
+  passphrase?: string;
+}
+
+export interface ProfileImportResult {
+  added: number;
+  updated: number;
+  // Why the profiles that couldn't be read were left out
+  skipped: string[];
+}
+
+type ExportedProfile = Pick<Profile, "id" | "name" | "type" | "credentials" | "createdAt">;
+
+/**
+ * Profiles exported to a file, to set up another browser
+ */
+interface ProfileBundle {
+  format: typeof PROFILE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  // Either the profiles, or the profiles encrypted with a passphrase
+  profiles?: ExportedProfile[];
+  encrypted?: PassphraseSealedData;
+}
+
+/**
+ * What a profile needs to keep working without a connection
+ */
+export interface OfflineState {
+  // Edits made while offline, oldest first. Encrypted with the active master key
+  // when the sync target uses encryption.
+  pendingEdits: string[];
+  // Master keys listed in the sync target's info.json, to decrypt cached items offline
+  masterKeys: MasterKey[];
+  activeMasterKeyId: string | null;
+}
+
+// Credential fields encrypted by the vault when vault mode is on
+const SECRET_FIELDS = {
+  webdav: ["password"],
+  joplinserver: ["password"],
+  onedrive: ["clientSecret", "authToken"],
+  googledrive: ["clientSecret", "authToken"],
+} as const;
+
+type SecretSection = keyof typeof SECRET_FIELDS;
+
+// Secret values of a profile by credentials section, e.g. { webdav: { password: "..." } }
+type ProfileSecrets = Partial<Record<SecretSection, Record<string, string>>>;
+
+interface StoredProfile extends Profile {
+  // In vault mode, the secrets removed from the credentials
+  sealedSecrets?: SealedData;
+}
+
+// Secrets of the stored profiles, readable once the vault is unlocked
+const unsealedSecrets = new Map<string, ProfileSecrets>();
+
+const listeners = new Set<() => void>();
+// Profiles as last listed, until one changes
+let profilesSnapshot: Profile[] | null = null;
+
+const notifyProfilesChanged = () => {
+  profilesSnapshot = null;
+  listeners.forEach((listener) => listener());
+};
+
+// Latest encryption of each profile's secrets, so an older one finishing last doesn't overwrite it
+const sealVersions = new Map<string, number>();
+
+/**
+ * Separate the secret fields from the rest of the credentials
+ */
+function splitSecrets(credentials: Credentials): { credentials: Credentials; secrets: ProfileSecrets } {
+  const stripped: Record<string, unknown> = { ...credentials };
+  const secrets: ProfileSecrets = {};
+  for (const section of Object.keys(SECRET_FIELDS) as SecretSection[]) {
+    const values = credentials[section] as Record<string, unknown> | undefined;
+    if (!values) continue;
+
+    const rest = { ...values };
+    for (const field of SECRET_FIELDS[section]) {
+      const value = rest[field];
+      if (typeof value === "string") {
+        secrets[section] = { ...secrets[section], [field]: value };
+      }
+      delete rest[field];
+    }
+    stripped[section] = rest;
+  }
+  return { credentials: stripped as unknown as Credentials, secrets };
+}
+
+function mergeSecrets(credentials: Credentials, secrets: ProfileSecrets): Credentials {
+  const merged: Record<string, unknown> = { ...credentials };
+  for (const [section, values] of Object.entries(secrets)) {
+    if (merged[section]) merged[section] = { ...(merged[section] as object), ...values };
+  }
+  return merged as unknown as Credentials;
+}
+
+type CredentialSection = Exclude<keyof Credentials, "type">;
+
+// Settings of each storage type, with the ones the connection form always fills in.
+// Passwords and tokens aren't required: exports may leave them out.
+const CREDENTIAL_SHAPES: Record<
+  StorageType,
+  { section: CredentialSection; fields: Record<string, "string" | "boolean">; required: string[] }
+> = {
+  FileSystem: {
+    section: "filesystem",
+    fields: { syncPath: "string", folderId: "string" },
+    required: ["syncPath"],
+  },
+  WebDAV: {
+    section: "webdav",
+    fields: { username: "string", password: "string", path: "string", ignoreTlsErrors: "boolean" },
+    required: ["username", "path"],
+  },
+  OneDrive: {
+    section: "onedrive",
+    fields: {
+      clientId: "string",
+      clientSecret: "string",
+      authToken: "string",
+      isPublic: "boolean",
+      redirectUri: "string",
+      basePath: "string",
+      driveId: "string",
+    },
+    required: ["clientId"],
+  },
+  JoplinServer: {
+    section: "joplinserver",
+    fields: { username: "string", password: "string", path: "string", userContentPath: "string" },
+    required: ["username", "path", "userContentPath"],
+  },
+  GoogleDrive: {
+    section: "googledrive",
+    fields: { clientId: "string", clientSecret: "string", authToken: "string", isPublic: "boolean" },
+    required: [],
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Check credentials read from outside the app against their storage type,
+ * keeping only the settings it knows
+ */
+function parseCredentials(value: unknown): Credentials {
+  if (!isRecord(value)) throw new Error("the connection settings are missing");
+  const { type } = value;
+  if (typeof type !== "string" || !Object.hasOwn(CREDENTIAL_SHAPES, type)) {
+    throw new Error(`unknown storage type ${JSON.stringify(type)}`);
+  }
+
+  const shape = CREDENTIAL_SHAPES[type as StorageType];
+  const values = value[shape.section];
+  if (!isRecord(values)) throw new Error(`the ${type} settings are missing`);
+
+  const settings: Record<string, unknown> = {};
+  for (const [field, kind] of Object.entries(shape.fields)) {
+    const fieldValue = values[field];
+    if (fieldValue === undefined || fieldValue === null) {
+      if (shape.required.includes(field)) throw new Error(`${field} is missing`);
+      continue;
+    }
+    if (typeof fieldValue !== kind) throw new Error(`${field} must be a ${kind}`);
+    settings[field] = fieldValue;
+  }
+  return { type, [shape.section]: settings } as Credentials;
+}
+
+const newProfileId = () => `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Server URL without what doesn't change the server it points to: the proxy
+ * route, default ports, letter case of the host and trailing slashes
+ */
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(fromProxyPath(url.trim()));
+    return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, "")}`;
+  } catch {
+    return url.trim().replace(/\/+$/, "");
+  }
+}
+
+/**
+ * Identity of the sync target and account some credentials connect to. Two
+ * profiles with the same key are the same profile.
+ * @returns null when the target can't be told apart from others
+ */
+function targetKey(credentials: Credentials): string | null {
+  const { type, filesystem, webdav, joplinserver, onedrive, googledrive } = credentials;
+  switch (type) {
+    case "FileSystem":
+      // Folders are only named after their last path segment; ones picked before
+      // folders had ids can't be matched
+      return filesystem?.folderId ? `${type}:${filesystem.folderId}` : null;
+    case "WebDAV":
+      return `${type}:${normalizeUrl(webdav?.path ?? "")}:${webdav?.username ?? ""}`;
+    case "JoplinServer":
+      // Joplin Server accounts are email addresses
+      return `${type}:${normalizeUrl(joplinserver?.path ?? "")}:${joplinserver?.username.toLowerCase() ?? ""}`;
+    case "OneDrive":
+      return onedrive?.driveId
+        ? `${type}:${onedrive.driveId}`
+        : `${type}:${onedrive?.clientId ?? ""}:${onedrive?.basePath ?? ""}`;
+    case "GoogleDrive":
+      return `${type}:${googledrive?.clientId ?? ""}`;
+  }
+}
+
+const EMPTY_OFFLINE_STATE: OfflineState = {
+  pendingEdits: [],
+  masterKeys: [],
+  activeMasterKeyId: null,
+};
+
 export class ProfileManager {
+  /**
+   * Parse a stored profile, bringing settings saved by older versions up to date
+   */
+  private static parseProfile(data: string): Profile {
+    const stored = JSON.parse(data) as StoredProfile;
+    delete stored.sealedSecrets;
+    const secrets = unsealedSecrets.get(stored.id);
+    const profile: Profile = secrets
+      ? { ...stored, credentials: mergeSecrets(stored.credentials, secrets) }
+      : stored;
+    const webdav = profile.credentials.webdav;
+    if (webdav) {
+      webdav.path = upgradeLegacyProxyPath(webdav.path);
+    }
+    return profile;
+  }
+
+  private static readStoredProfile(profileId: string): StoredProfile | null {
+    const data = localStorage.getItem(`${STORAGE_KEY_PREFIX}${profileId}`);
+    if (!data) return null;
+
+    try {
+      return JSON.parse(data) as StoredProfile;
+    } catch (error) {
+      console.error("Failed to parse profile:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a profile. In vault mode its secrets are encrypted, which finishes
+   * after the rest of the profile is written: the previously stored secrets are
+   * kept until then.
+   */
+  private static writeProfile(profile: Profile): Promise<void> {
+    const key = `${STORAGE_KEY_PREFIX}${profile.id}`;
+    if (!credentialVault.isEnabled()) {
+      localStorage.setItem(key, JSON.stringify(profile));
+      notifyProfilesChanged();
+      return Promise.resolve();
+    }
+
+    const locked = credentialVault.isLocked();
+    const { credentials, secrets } = splitSecrets(profile.credentials);
+    const hasSecrets = Object.keys(secrets).length > 0;
+    // Profiles read while locked have no secrets, the stored ones stay valid
+    if (locked && hasSecrets) {
+      throw new Error("Unlock your saved profiles before saving new credentials");
+    }
+
+    const previous = locked || hasSecrets ? this.readStoredProfile(profile.id)?.sealedSecrets : undefined;
+    const stored: StoredProfile = { ...profile, credentials, sealedSecrets: previous };
+    localStorage.setItem(key, JSON.stringify(stored));
+    if (!locked) unsealedSecrets.set(profile.id, secrets);
+    notifyProfilesChanged();
+    if (locked) return Promise.resolve();
+
+    const version = (sealVersions.get(profile.id) ?? 0) + 1;
+    sealVersions.set(profile.id, version);
+    if (!hasSecrets) return Promise.resolve();
+
+    return credentialVault.seal(JSON.stringify(secrets)).then((sealedSecrets) => {
+      const current = this.readStoredProfile(profile.id);
+      if (!current || sealVersions.get(profile.id) !== version) return;
+      localStorage.setItem(key, JSON.stringify({ ...current, sealedSecrets } satisfies StoredProfile));
+    });
+  }
+
   /**
    * Save a profile to localStorage
    */
   static saveProfile(profile: Profile): void {
-    const key = `${STORAGE_KEY_PREFIX}${profile.id}`;
-    localStorage.setItem(key, JSON.stringify(profile));
+    this.writeProfile(profile).catch((error) => {
+      console.error("[ProfileManager.saveProfile] Failed to encrypt profile secrets:", error);
+    });
+  }
+
+  /**
+   * Turn on vault mode: from now on profile secrets are stored encrypted with a
+   * key derived from the passphrase
+   */
+  static async enableVault(passphrase: string): Promise<void> {
+    await credentialVault.create(passphrase);
+    await this.loadVaultSecrets();
+  }
+
+  /**
+   * Unlock the profile secrets for this session
+   */
+  static async unlockVault(passphrase: string): Promise<void> {
+    await credentialVault.unlock(passphrase);
+    await this.loadVaultSecrets();
+  }
+
+  /**
+   * Turn off vault mode without the passphrase. The secrets it encrypted are
+   * lost, so their profiles need their credentials entered again.
+   */
+  static resetVault(): void {
+    for (const { id } of this.getAllProfiles()) {
+      const stored = this.readStoredProfile(id);
+      if (stored?.sealedSecrets) {
+        delete stored.sealedSecrets;
+        localStorage.setItem(`${STORAGE_KEY_PREFIX}${id}`, JSON.stringify(stored));
+      }
+    }
+    unsealedSecrets.clear();
+    credentialVault.remove();
+    notifyProfilesChanged();
+  }
+
+  /**
+   * Decrypt the secrets of every profile, and encrypt the ones still stored in
+   * plain text (saved before vault mode was turned on)
+   */
+  private static async loadVaultSecrets(): Promise<void> {
+    for (const { id } of this.getAllProfiles()) {
+      const stored = this.readStoredProfile(id);
+      if (!stored) continue;
+
+      try {
+        if (stored.sealedSecrets) {
+          const secrets = JSON.parse(await credentialVault.unseal(stored.sealedSecrets)) as ProfileSecrets;
+          unsealedSecrets.set(id, secrets);
+        }
+        const profile = this.getProfile(id);
+        if (profile && Object.keys(splitSecrets(stored.credentials).secrets).length > 0) {
+          await this.writeProfile(profile);
+        }
+      } catch (error) {
+        console.error(`[ProfileManager.loadVaultSecrets] Failed to unlock profile ${id}:`, error);
+      }
+    }
+    notifyProfilesChanged();
   }
 
   /**
@@ -30,7 +399,7 @@ export class ProfileManager {
     if (!data) return null;
     
     try {
-      return JSON.parse(data) as Profile;
+      return this.parseProfile(data);
     } catch (error) {
       console.error("Failed to parse profile:", error);
       return null;
@@ -49,7 +418,7 @@ export class ProfileManager {
         const data = localStorage.getItem(key);
         if (data) {
           try {
-            profiles.push(JSON.parse(data) as Profile);
+            profiles.push(this.parseProfile(data));
           } catch (error) {
             console.error("Failed to parse profile:", error);
           }
@@ -61,12 +430,40 @@ export class ProfileManager {
     return profiles.sort((a, b) => b.lastUsed - a.lastUsed);
   }
 
+  /**
+   * The saved profiles, most recently used first, as the same array until one
+   * changes (compatible with useSyncExternalStore)
+   */
+  static getProfilesSnapshot = (): Profile[] => {
+    profilesSnapshot ??= ProfileManager.getAllProfiles();
+    return profilesSnapshot;
+  };
+
+  /**
+   * Subscribe to profile changes (compatible with useSyncExternalStore)
+   */
+  static subscribe = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
   /**
    * Delete a profile
    */
   static deleteProfile(profileId: string): void {
     const key = `${STORAGE_KEY_PREFIX}${profileId}`;
     localStorage.removeItem(key);
+    localStorage.removeItem(`${OFFLINE_KEY_PREFIX}${profileId}`);
+    unsealedSecrets.delete(profileId);
+    notifyProfilesChanged();
+    ItemCache.deleteForProfile(profileId).catch((error) => {
+      console.error("[ProfileManager.deleteProfile] Failed to delete item cache:", error);
+    });
+    deleteSyncFolder(profileId).catch((error) => {
+      console.error("[ProfileManager.deleteProfile] Failed to forget sync folder:", error);
+    });
     
     // If this was the active profile, clear it
     const activeProfileId = this.getActiveProfileId();
@@ -112,11 +509,204 @@ export class ProfileManager {
     localStorage.removeItem(ACTIVE_PROFILE_KEY);
   }
 
+  /**
+   * The saved profile of the target some credentials connect to
+   */
+  static findProfile(credentials: Credentials): Profile | null {
+    const key = targetKey(credentials);
+    if (key === null) return null;
+    const profiles = this.getAllProfiles();
+    const match = profiles.find((profile) => targetKey(profile.credentials) === key);
+    if (match || !credentials.onedrive?.driveId) return match ?? null;
+
+    // OneDrive profiles saved before drive ids were known match by app and folder
+    const legacyKey = targetKey({ ...credentials, onedrive: { ...credentials.onedrive, driveId: undefined } });
+    return (
+      profiles.find(
+        (profile) => !profile.credentials.onedrive?.driveId && targetKey(profile.credentials) === legacyKey
+      ) ?? null
+    );
+  }
+
+  /**
+   * Save the credentials of a successful connection to the profile of their
+   * target, which is created on the first connection
+   */
+  static saveCredentials(credentials: Credentials): Profile {
+    const existing = this.findProfile(credentials);
+    const profile = existing
+      ? { ...existing, credentials, lastUsed: Date.now() }
+      : this.createProfile(credentials);
+    this.saveProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Merge profiles of the same target, left by versions that created a new
+   * profile on every connection. The one with edits waiting to be uploaded, or
+   * else the last used one, is kept, with the latest credentials and the
+   * waiting edits of all of them.
+   */
+  static mergeDuplicateProfiles(): void {
+    // The latest credentials of other profiles can't be read
+    if (credentialVault.isLocked()) return;
+
+    const groups = new Map<string, Profile[]>();
+    for (const profile of this.getAllProfiles()) {
+      const key = targetKey(profile.credentials);
+      if (key === null) continue;
+      groups.set(key, [...(groups.get(key) ?? []), profile]);
+    }
+
+    for (const duplicates of groups.values()) {
+      if (duplicates.length < 2) continue;
+
+      const latest = duplicates[0];
+      const kept =
+        duplicates.find((profile) => this.getOfflineState(profile.id).pendingEdits.length > 0) ?? latest;
+      this.saveProfile({
+        ...kept,
+        credentials: latest.credentials,
+        lastUsed: latest.lastUsed,
+        createdAt: Math.min(...duplicates.map((profile) => profile.createdAt)),
+      });
+
+      // Edits queued by any duplicate still have to be uploaded, with the master
+      // keys that encrypted them
+      const keptState = this.getOfflineState(kept.id);
+      const masterKeys = new Map(keptState.masterKeys.map((masterKey) => [masterKey.id, masterKey]));
+      const pendingEdits = [...keptState.pendingEdits];
+      for (const duplicate of duplicates) {
+        if (duplicate.id === kept.id) continue;
+        const state = this.getOfflineState(duplicate.id);
+        pendingEdits.push(...state.pendingEdits);
+        for (const masterKey of state.masterKeys) {
+          if (!masterKeys.has(masterKey.id)) masterKeys.set(masterKey.id, masterKey);
+        }
+      }
+      this.saveOfflineState(kept.id, { ...keptState, pendingEdits, masterKeys: [...masterKeys.values()] });
+
+      const activeProfileId = this.getActiveProfileId();
+      for (const duplicate of duplicates) {
+        if (duplicate.id === kept.id) continue;
+        this.deleteProfile(duplicate.id);
+        if (duplicate.id === activeProfileId) {
+          localStorage.setItem(ACTIVE_PROFILE_KEY, kept.id);
+        }
+      }
+      console.log(`[ProfileManager.mergeDuplicateProfiles] Merged ${duplicates.length} profiles into "${kept.name}"`);
+    }
+  }
+
+  /**
+   * Export the saved profiles to a JSON bundle another browser can import
+   */
+  static async exportProfiles(options: ProfileExportOptions): Promise<string> {
+    if (options.includeSecrets && credentialVault.isLocked()) {
+      throw new Error("Unlock your saved profiles to export their passwords and tokens");
+    }
+
+    const profiles: ExportedProfile[] = this.getAllProfiles().map(
+      ({ id, name, type, credentials, createdAt }) => ({
+        id,
+        name,
+        type,
+        credentials: options.includeSecrets ? credentials : splitSecrets(credentials).credentials,
+        createdAt,
+      })
+    );
+    const bundle: ProfileBundle = {
+      format: PROFILE_BUNDLE_FORMAT,
+      version: PROFILE_BUNDLE_VERSION,
+      exportedAt: Date.now(),
+    };
+    if (options.passphrase) {
+      bundle.encrypted = await sealWithPassphrase(JSON.stringify(profiles), options.passphrase);
+    } else {
+      bundle.profiles = profiles;
+    }
+    return JSON.stringify(bundle, null, 2);
+  }
+
+  /**
+   * Import the profiles of an exported bundle. Profiles of a target that
+   * already has one update it, and take a new id when theirs is taken.
+   * @param passphrase Needed for encrypted bundles
+   */
+  static async importProfiles(bundleText: string, passphrase?: string): Promise<ProfileImportResult> {
+    if (credentialVault.isLocked()) {
+      throw new Error("Unlock your saved profiles before importing others");
+    }
+
+    let bundle: unknown;
+    try {
+      bundle = JSON.parse(bundleText);
+    } catch {
+      bundle = null;
+    }
+    if (!isRecord(bundle) || bundle.format !== PROFILE_BUNDLE_FORMAT) {
+      throw new Error("This file isn't a profile export");
+    }
+    if (typeof bundle.version !== "number" || bundle.version > PROFILE_BUNDLE_VERSION) {
+      throw new Error("This profile export was made by a newer version of the app");
+    }
+
+    let entries = bundle.profiles;
+    if (bundle.encrypted) {
+      if (!isPassphraseSealedData(bundle.encrypted)) throw new Error("This profile export is damaged");
+      if (!passphrase) throw new Error("This profile export is encrypted, enter its passphrase");
+      const decrypted = await unsealWithPassphrase(bundle.encrypted, passphrase);
+      try {
+        entries = JSON.parse(decrypted);
+      } catch {
+        throw new Error("This file isn't a profile export");
+      }
+    }
+    if (!Array.isArray(entries)) throw new Error("The profile export has no profiles");
+
+    const result: ProfileImportResult = { added: 0, updated: 0, skipped: [] };
+    entries.forEach((entry: unknown, index) => {
+      const name = isRecord(entry) && typeof entry.name === "string" && entry.name.trim() ? entry.name : null;
+      let credentials: Credentials;
+      try {
+        credentials = parseCredentials(isRecord(entry) ? entry.credentials : undefined);
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        result.skipped.push(`${name ? `"${name}"` : `Profile ${index + 1}`}: ${reason}`);
+        return;
+      }
+
+      const existing = this.findProfile(credentials);
+      if (existing) {
+        // Passwords and tokens left out of the export keep their saved value
+        const saved = splitSecrets(existing.credentials).secrets;
+        const imported = splitSecrets(credentials).secrets;
+        this.saveProfile({ ...existing, credentials: mergeSecrets(mergeSecrets(credentials, saved), imported) });
+        result.updated++;
+        return;
+      }
+
+      const exportedId = isRecord(entry) && typeof entry.id === "string" ? entry.id : null;
+      const createdAt = isRecord(entry) && typeof entry.createdAt === "number" ? entry.createdAt : Date.now();
+      this.saveProfile({
+        id: exportedId && !this.getProfile(exportedId) ? exportedId : newProfileId(),
+        name: name ?? `${credentials.type} - imported`,
+        type: credentials.type,
+        credentials,
+        // Never used in this browser
+        lastUsed: 0,
+        createdAt,
+      });
+      result.added++;
+    });
+    return result;
+  }
+
   /**
    * Create a new profile from credentials
    */
   static createProfile(credentials: Credentials, name?: string): Profile {
-    const id = `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const id = newProfileId();
     const profileName = name || `${credentials.type} - ${new Date().toLocaleDateString()}`;
     
     return {
@@ -129,6 +719,14 @@ export class ProfileManager {
     };
   }
 
+  static renameProfile(profileId: string, name: string): void {
+    const profile = this.getProfile(profileId);
+    if (profile) {
+      profile.name = name;
+      this.saveProfile(profile);
+    }
+  }
+
   /**
    * Update profile credentials (e.g., when auth token is refreshed)
    */
@@ -152,4 +750,26 @@ export class ProfileManager {
       this.saveProfile(profile);
     }
   }
+
+  /**
+   * Get the offline state of a profile
+   */
+  static getOfflineState(profileId: string): OfflineState {
+    const data = localStorage.getItem(`${OFFLINE_KEY_PREFIX}${profileId}`);
+    if (!data) return { ...EMPTY_OFFLINE_STATE };
+
+    try {
+      return { ...EMPTY_OFFLINE_STATE, ...(JSON.parse(data) as Partial<OfflineState>) };
+    } catch (error) {
+      console.error("Failed to parse offline state:", error);
+      return { ...EMPTY_OFFLINE_STATE };
+    }
+  }
+
+  /**
+   * Save the offline state of a profile
+   */
+  static saveOfflineState(profileId: string, state: OfflineState): void {
+    localStorage.setItem(`${OFFLINE_KEY_PREFIX}${profileId}`, JSON.stringify(state));
+  }
 }
@@ -0,0 +1,169 @@
+import DiffMatchPatch from "diff-match-patch";
+import type { Item } from "joplin-sync";
+import type { JoplinItem } from "../types/joplinItems";
+
+const REVISION_TYPE = 13;
+
+const dmp = new DiffMatchPatch();
+
+export interface NoteVersion {
+  // Revision id, or null for the current version of the note
+  revisionId: string | null;
+  updatedTime: number;
+  title: string;
+  body: string;
+  // Some patches didn't apply cleanly (or were encrypted), the text is a best effort
+  approximate: boolean;
+}
+
+export interface DiffLine {
+  kind: "equal" | "insert" | "delete";
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface SideBySideRow {
+  // Missing on the side the line was added to or removed from
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Group revision items (type 13) by the id of the note they belong to,
+ * each list sorted from oldest to newest
+ */
+export function groupRevisionsByNote(items: Item[]): Map<string, JoplinItem[]> {
+  const revisionsByNote = new Map<string, JoplinItem[]>();
+
+  items.forEach((item) => {
+    if (item?.type_ !== REVISION_TYPE) return;
+    const revision = item as JoplinItem;
+    if (!revision.item_id) return;
+
+    if (!revisionsByNote.has(revision.item_id)) revisionsByNote.set(revision.item_id, []);
+    revisionsByNote.get(revision.item_id)!.push(revision);
+  });
+
+  revisionsByNote.forEach((revisions) =>
+    revisions.sort((a, b) => (a.item_updated_time || 0) - (b.item_updated_time || 0))
+  );
+  return revisionsByNote;
+}
+
+const applyTextPatch = (text: string, patch?: string): { text: string; ok: boolean } => {
+  if (!patch) return { text, ok: true };
+  try {
+    const [patched, results] = dmp.patch_apply(dmp.patch_fromText(patch), text);
+    return { text: patched, ok: results.every(Boolean) };
+  } catch (error) {
+    console.error("[revisionHistory] Invalid revision patch:", error);
+    return { text, ok: false };
+  }
+};
+
+/**
+ * Rebuild the title and body of a note at every revision by applying the
+ * revision patches in order, oldest first. The current note is appended as
+ * the last version.
+ * @param revisions Revisions of the note, sorted from oldest to newest
+ */
+export function buildNoteVersions(note: Item, revisions: JoplinItem[]): NoteVersion[] {
+  const versions: NoteVersion[] = [];
+  let title = "";
+  let body = "";
+  let approximate = false;
+
+  revisions.forEach((revision) => {
+    // Encrypted revisions can't be patched, every later version depends on them
+    if (revision.encryption_applied) {
+      approximate = true;
+    } else {
+      const titleResult = applyTextPatch(title, revision.title_diff);
+      const bodyResult = applyTextPatch(body, revision.body_diff);
+      title = titleResult.text;
+      body = bodyResult.text;
+      approximate = approximate || !titleResult.ok || !bodyResult.ok;
+    }
+
+    versions.push({
+      revisionId: revision.id,
+      updatedTime: revision.item_updated_time || revision.updated_time || 0,
+      title,
+      body,
+      approximate,
+    });
+  });
+
+  versions.push({
+    revisionId: null,
+    updatedTime: note.updated_time || 0,
+    title: note.title || "",
+    body: note.body || "",
+    approximate: false,
+  });
+
+  return versions;
+}
+
+/**
+ * Line-by-line diff between two texts, with line numbers on both sides
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const { chars1, chars2, lineArray } = dmp.diff_linesToChars_(oldText, newText);
+  const diffs = dmp.diff_main(chars1, chars2, false);
+  dmp.diff_charsToLines_(diffs, lineArray);
+
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+
+  diffs.forEach(([operation, text]) => {
+    const textLines = text.split("\n");
+    // Every line but the last one of the text ends with a newline
+    if (textLines[textLines.length - 1] === "") textLines.pop();
+
+    textLines.forEach((line) => {
+      if (operation === DiffMatchPatch.DIFF_INSERT) {
+        lines.push({ kind: "insert", text: line, newNumber: newNumber++ });
+      } else if (operation === DiffMatchPatch.DIFF_DELETE) {
+        lines.push({ kind: "delete", text: line, oldNumber: oldNumber++ });
+      } else {
+        lines.push({ kind: "equal", text: line, oldNumber: oldNumber++, newNumber: newNumber++ });
+      }
+    });
+  });
+
+  return lines;
+}
+
+/**
+ * Lay a line diff out in two columns: removed lines on the left are paired with
+ * the lines added in their place on the right
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let deleted: DiffLine[] = [];
+  let inserted: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, inserted.length); i++) {
+      rows.push({ left: deleted[i], right: inserted[i] });
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  lines.forEach((line) => {
+    if (line.kind === "delete") {
+      deleted.push(line);
+    } else if (line.kind === "insert") {
+      inserted.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  });
+  flush();
+  return rows;
+}
@@ -0,0 +1,291 @@
+import type { Item } from "joplin-sync";
+import type { JoplinItem } from "../types/joplinItems";
+
+const NOTE_TYPE = 1;
+
+// Title matches count as much as this many body matches
+const TITLE_WEIGHT = 3;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Time budget of one indexing slice before yielding back to the UI
+const SLICE_MS = 12;
+const SNIPPET_RADIUS = 60;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  item: Item;
+  score: number;
+  title: HighlightSegment[];
+  snippet: HighlightSegment[];
+}
+
+export interface IndexStatus {
+  indexedCount: number;
+  pendingCount: number;
+  // Bumped whenever the indexed content changes
+  version: number;
+}
+
+interface IndexedDoc {
+  item: Item;
+  termFreqs: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Split text into lowercase, accent-insensitive terms
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    // Skip empty splits and long ids such as `:/<32 hex>` resource links
+    .filter((term) => term.length > 0 && term.length < 30);
+}
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+const matchesTerms = (word: string, terms: string[]): boolean => {
+  const [term] = tokenize(word);
+  return !!term && terms.some((queryTerm) => term.startsWith(queryTerm));
+};
+
+/**
+ * Split text into plain and matched segments for every word starting with one of the terms
+ */
+export function highlight(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(WORD_REGEX)) {
+    if (!matchesTerms(match[0], terms)) continue;
+
+    const start = match.index ?? 0;
+    if (start > lastIndex) segments.push({ text: text.slice(lastIndex, start), match: false });
+    segments.push({ text: match[0], match: true });
+    lastIndex = start + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), match: false });
+  return segments;
+}
+
+/**
+ * In-memory inverted index of note titles and bodies.
+ * Notes are queued and indexed in short time slices so large libraries
+ * don't block the UI thread.
+ */
+export class SearchIndex {
+  private postings = new Map<string, Map<string, number>>();
+  private docs = new Map<string, IndexedDoc>();
+  private totalLength = 0;
+  private queue = new Map<string, Item>();
+  private scheduled = false;
+  private listeners = new Set<() => void>();
+  private status: IndexStatus = { indexedCount: 0, pendingCount: 0, version: 0 };
+
+  /**
+   * Queue items for indexing. Non-note items are ignored,
+   * notes that are already indexed are replaced and trashed notes removed.
+   */
+  add(items: Item[]): void {
+    items.forEach((item) => {
+      if (item?.type_ !== NOTE_TYPE) return;
+      // Notes moved to the trash drop out of the results
+      if ((item as JoplinItem).deleted_time) {
+        this.queue.delete(item.id);
+        this.removeDoc(item.id);
+      } else {
+        this.queue.set(item.id, item);
+      }
+    });
+    this.updateStatus();
+    this.schedule();
+  }
+
+  remove(ids: string[]): void {
+    ids.forEach((id) => {
+      this.queue.delete(id);
+      this.removeDoc(id);
+    });
+    this.updateStatus(true);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docs.clear();
+    this.queue.clear();
+    this.totalLength = 0;
+    this.updateStatus(true);
+  }
+
+  /**
+   * Search notes matching every term of the query (the last one as a prefix),
+   * ranked by BM25 with title matches boosted
+   */
+  search(query: string, limit: number = 50): SearchResult[] {
+    const terms = tokenize(query);
+    if (terms.length === 0 || this.docs.size === 0) return [];
+
+    const avgLength = this.totalLength / this.docs.size || 1;
+    const scores = new Map<string, number>();
+
+    for (let i = 0; i < terms.length; i++) {
+      const isLast = i === terms.length - 1;
+      const matches = new Map<string, number>();
+
+      // Collect matching postings, expanding the last term as a prefix
+      const expanded = isLast
+        ? Array.from(this.postings.keys()).filter((key) => key.startsWith(terms[i]))
+        : this.postings.has(terms[i]) ? [terms[i]] : [];
+
+      for (const term of expanded) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.docs.size - posting.size + 0.5) / (posting.size + 0.5));
+        posting.forEach((tf, docId) => {
+          const doc = this.docs.get(docId)!;
+          const norm = tf + K1 * (1 - B + (B * doc.length) / avgLength);
+          const termScore = (idf * tf * (K1 + 1)) / norm;
+          matches.set(docId, Math.max(matches.get(docId) || 0, termScore));
+        });
+      }
+
+      // Every term has to match
+      if (i === 0) {
+        matches.forEach((score, docId) => scores.set(docId, score));
+      } else {
+        scores.forEach((score, docId) => {
+          const termScore = matches.get(docId);
+          if (termScore === undefined) {
+            scores.delete(docId);
+          } else {
+            scores.set(docId, score + termScore);
+          }
+        });
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([docId, score]) => {
+        const { item } = this.docs.get(docId)!;
+        return {
+          item,
+          score,
+          title: highlight(item.title || "(Untitled)", terms),
+          snippet: highlight(this.snippet(item.body || "", terms), terms),
+        };
+      });
+  }
+
+  getStatus(): IndexStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to indexing progress (compatible with useSyncExternalStore)
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private schedule(): void {
+    if (this.scheduled || this.queue.size === 0) return;
+    this.scheduled = true;
+    setTimeout(() => this.processSlice(), 0);
+  }
+
+  private processSlice(): void {
+    this.scheduled = false;
+    const start = performance.now();
+    let indexed = 0;
+
+    for (const [id, item] of this.queue) {
+      this.queue.delete(id);
+      this.indexDoc(item);
+      indexed++;
+      if (performance.now() - start > SLICE_MS) break;
+    }
+
+    if (indexed > 0) this.updateStatus(true);
+    this.schedule();
+  }
+
+  private indexDoc(item: Item): void {
+    this.removeDoc(item.id);
+
+    const termFreqs = new Map<string, number>();
+    const titleTerms = tokenize(item.title || "");
+    titleTerms.forEach((term) => {
+      termFreqs.set(term, (termFreqs.get(term) || 0) + TITLE_WEIGHT);
+    });
+    const bodyTerms = tokenize(item.body || "");
+    bodyTerms.forEach((term) => {
+      termFreqs.set(term, (termFreqs.get(term) || 0) + 1);
+    });
+
+    termFreqs.forEach((tf, term) => {
+      if (!this.postings.has(term)) this.postings.set(term, new Map());
+      this.postings.get(term)!.set(item.id, tf);
+    });
+
+    const length = titleTerms.length * TITLE_WEIGHT + bodyTerms.length;
+    this.docs.set(item.id, { item, termFreqs, length });
+    this.totalLength += length;
+  }
+
+  private removeDoc(id: string): void {
+    const doc = this.docs.get(id);
+    if (!doc) return;
+
+    doc.termFreqs.forEach((_tf, term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) this.postings.delete(term);
+    });
+    this.totalLength -= doc.length;
+    this.docs.delete(id);
+  }
+
+  /**
+   * Window of the body around the first matching word
+   */
+  private snippet(body: string, terms: string[]): string {
+    let offset = -1;
+    for (const match of body.matchAll(WORD_REGEX)) {
+      if (matchesTerms(match[0], terms)) {
+        offset = match.index ?? 0;
+        break;
+      }
+    }
+    if (offset === -1) return body.slice(0, SNIPPET_RADIUS * 2).replace(/\s+/g, " ");
+
+    const start = Math.max(0, offset - SNIPPET_RADIUS);
+    const end = Math.min(body.length, offset + SNIPPET_RADIUS);
+    const text = body.slice(start, end).replace(/\s+/g, " ");
+    return `${start > 0 ? "…" : ""}${text}${end < body.length ? "…" : ""}`;
+  }
+
+  private updateStatus(contentChanged: boolean = false): void {
+    this.status = {
+      indexedCount: this.docs.size,
+      pendingCount: this.queue.size,
+      version: contentChanged ? this.status.version + 1 : this.status.version,
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const searchIndex = new SearchIndex();
@@ -0,0 +1,139 @@
+import { getMountedDirectory, mountDirectory } from "./browserFs";
+
+const DB_NAME = "joplin_sync_folders";
+const DB_VERSION = 1;
+const HANDLES_STORE = "handles";
+
+// Folder created in the origin private file system when no folder can be picked
+const BROWSER_STORAGE_FOLDER = "joplin-sync";
+
+interface StoredHandle {
+  profileId: string;
+  handle: FileSystemDirectoryHandle;
+  // Missing for folders remembered before folders had ids
+  folderId?: string;
+}
+
+/**
+ * A folder served to the FileSystem target
+ */
+export interface SyncFolder {
+  syncPath: string;
+  // Tells folders with the same name apart, kept with the profile
+  folderId: string;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(HANDLES_STORE)) {
+      request.result.createObjectStore(HANDLES_STORE, { keyPath: "profileId" });
+    }
+  };
+  return requestToPromise(request);
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await requestToPromise(run(db.transaction(HANDLES_STORE, mode).objectStore(HANDLES_STORE)));
+  } finally {
+    db.close();
+  }
+};
+
+const mount = (handle: FileSystemDirectoryHandle): string => {
+  const syncPath = `/${handle.name}`;
+  mountDirectory(syncPath, handle);
+  return syncPath;
+};
+
+/**
+ * Serve a newly opened folder, with the id of a profile's folder when it is the same one
+ */
+const open = async (handle: FileSystemDirectoryHandle): Promise<SyncFolder> => {
+  const stored = await withStore<StoredHandle[]>("readonly", (store) => store.getAll());
+  let folderId: string | null = null;
+  for (const entry of stored) {
+    if (entry.folderId && (await entry.handle.isSameEntry(handle))) {
+      folderId = entry.folderId;
+      break;
+    }
+  }
+  return { syncPath: mount(handle), folderId: folderId ?? crypto.randomUUID() };
+};
+
+export const supportsDirectoryPicker = (): boolean =>
+  typeof window.showDirectoryPicker === "function";
+
+/**
+ * Ask the user for their Joplin sync folder and serve it to the FileSystem target
+ * @returns The sync path to connect with and the folder's id
+ */
+export async function pickSyncFolder(): Promise<SyncFolder> {
+  if (!window.showDirectoryPicker) {
+    throw new Error("This browser can't open local folders, use the browser storage instead");
+  }
+  return open(await window.showDirectoryPicker({ id: "joplin-sync", mode: "readwrite" }));
+}
+
+/**
+ * Use a sync folder kept in the browser's private storage, for browsers without
+ * a folder picker. Other Joplin clients can't reach it, but it can be filled
+ * with an import and synced from here.
+ */
+export async function openBrowserStorageFolder(): Promise<SyncFolder> {
+  const root = await navigator.storage.getDirectory();
+  return open(await root.getDirectoryHandle(BROWSER_STORAGE_FOLDER, { create: true }));
+}
+
+/**
+ * Remember the folder currently served for a profile, so it can be reopened without picking it again
+ * @param folderId Id of the folder in the profile's credentials
+ */
+export async function saveSyncFolder(profileId: string, folderId?: string): Promise<void> {
+  const handle = getMountedDirectory();
+  if (!handle) return;
+  await withStore("readwrite", (store) => store.put({ profileId, handle, folderId } satisfies StoredHandle));
+}
+
+/**
+ * Serve the folder remembered for a profile again. Browsers ask the user before
+ * granting access to a picked folder again, which they only allow after a click.
+ * @param requestPermission Ask for access; only pass true from a user gesture
+ * @returns false when access still has to be granted
+ */
+export async function restoreSyncFolder(profileId: string, requestPermission = false): Promise<boolean> {
+  const stored = await withStore<StoredHandle | undefined>("readonly", (store) => store.get(profileId));
+  if (!stored) {
+    throw new Error("The sync folder of this profile is unknown, connect to it again");
+  }
+
+  const { handle } = stored;
+  const descriptor = { mode: "readwrite" as const };
+  // Folders in the browser's private storage have no permission to ask for
+  let permission: PermissionState = (await handle.queryPermission?.(descriptor)) ?? "granted";
+  if (permission === "prompt" && requestPermission) {
+    permission = (await handle.requestPermission?.(descriptor)) ?? "denied";
+  }
+  if (permission === "denied") {
+    throw new Error(`Access to the sync folder "${handle.name}" was denied`);
+  }
+  if (permission !== "granted") return false;
+
+  mount(handle);
+  return true;
+}
+
+export async function deleteSyncFolder(profileId: string): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(profileId));
+}
@@ -0,0 +1,56 @@
+import type { Item } from "joplin-sync";
+import type { JoplinItem } from "../types/joplinItems";
+
+const TAG_TYPE = 5;
+const NOTE_TAG_TYPE = 6;
+
+export interface TagIndex {
+  // All tags, sorted by title
+  tags: Item[];
+  tagsByNote: Map<string, Item[]>;
+  notesByTag: Map<string, Set<string>>;
+}
+
+/**
+ * Join note_tag link items (type 6) with their tags (type 5).
+ * Links whose tag isn't loaded yet are kept in notesByTag so counts stay correct
+ * once the tag arrives, but are left out of tagsByNote.
+ */
+export function buildTagIndex(items: Item[]): TagIndex {
+  const tagsById = new Map<string, Item>();
+  const notesByTag = new Map<string, Set<string>>();
+
+  items.forEach((item) => {
+    if (item?.type_ === TAG_TYPE) {
+      tagsById.set(item.id, item);
+    }
+  });
+
+  items.forEach((item) => {
+    if (item?.type_ !== NOTE_TAG_TYPE) return;
+    const { note_id: noteId, tag_id: tagId } = item as JoplinItem;
+    if (!noteId || !tagId) return;
+
+    if (!notesByTag.has(tagId)) notesByTag.set(tagId, new Set());
+    notesByTag.get(tagId)!.add(noteId);
+  });
+
+  const tagsByNote = new Map<string, Item[]>();
+  notesByTag.forEach((noteIds, tagId) => {
+    const tag = tagsById.get(tagId);
+    if (!tag) return;
+    noteIds.forEach((noteId) => {
+      if (!tagsByNote.has(noteId)) tagsByNote.set(noteId, []);
+      tagsByNote.get(noteId)!.push(tag);
+    });
+  });
+
+  const byTitle = (a: Item, b: Item) => (a.title || "").localeCompare(b.title || "");
+  tagsByNote.forEach((tags) => tags.sort(byTitle));
+
+  return {
+    tags: Array.from(tagsById.values()).sort(byTitle),
+    tagsByNote,
+    notesByTag,
+  };
+}
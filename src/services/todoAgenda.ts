@@ -0,0 +1,73 @@
+import type { Item } from "joplin-sync";
+import type { JoplinItem } from "../types/joplinItems";
+
+const NOTE_TYPE = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AgendaGroupKey = "overdue" | "today" | "week" | "later" | "undated";
+
+export interface AgendaGroup {
+  key: AgendaGroupKey;
+  label: string;
+  // Sorted by due time, then title
+  todos: Item[];
+}
+
+const GROUP_LABELS: Record<AgendaGroupKey, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  week: "This week",
+  later: "Later",
+  undated: "No due date",
+};
+
+export const isTodo = (item: Item): boolean =>
+  item.type_ === NOTE_TYPE && !!(item as JoplinItem).is_todo;
+
+export const isTodoCompleted = (item: Item): boolean => !!(item as JoplinItem).todo_completed;
+
+/**
+ * Group the open to-dos by due date. Weeks end on Sunday night, local time.
+ * Trashed and encrypted notes are left out.
+ */
+export function buildAgenda(items: Item[], now: Date = new Date()): AgendaGroup[] {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const startOfTomorrow = startOfToday + DAY_MS;
+  // getDay() is 0 on Sunday: days left until next Monday
+  const daysToMonday = ((8 - now.getDay()) % 7) || 7;
+  const startOfNextWeek = new Date(
+    now.getFullYear(),
+    now.getMonth(),
+    now.getDate() + daysToMonday
+  ).getTime();
+
+  const groups = new Map<AgendaGroupKey, Item[]>(
+    (Object.keys(GROUP_LABELS) as AgendaGroupKey[]).map((key) => [key, []])
+  );
+
+  items.forEach((item) => {
+    const todo = item as JoplinItem;
+    if (!isTodo(item) || isTodoCompleted(item) || todo.deleted_time || todo.encryption_applied) {
+      return;
+    }
+
+    const due = todo.todo_due || 0;
+    let key: AgendaGroupKey;
+    if (!due) key = "undated";
+    else if (due < now.getTime()) key = "overdue";
+    else if (due < startOfTomorrow) key = "today";
+    else if (due < startOfNextWeek) key = "week";
+    else key = "later";
+    groups.get(key)!.push(item);
+  });
+
+  const byDue = (a: Item, b: Item) =>
+    ((a as JoplinItem).todo_due || 0) - ((b as JoplinItem).todo_due || 0) ||
+    (a.title || "").localeCompare(b.title || "");
+
+  return Array.from(groups, ([key, todos]) => ({
+    key,
+    label: GROUP_LABELS[key],
+    todos: todos.sort(byDue),
+  })).filter((group) => group.todos.length > 0);
+}
@@ -0,0 +1,97 @@
+// Route of the proxy served next to the app (see server/webdavProxy.ts). It
+// forwards any HTTP request, so Joplin Server targets go through it too.
+const WEBDAV_PROXY_PREFIX = "/webdav-proxy";
+
+// Proxy paths saved by older versions, which only proxied a few localhost ports
+const LEGACY_PROXY_PATH = /^\/webdav-proxy-(\d+)(\/.*)?$/;
+
+const encodeBasicAuth = (username: string, password: string): string => {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return btoa(String.fromCharCode(...bytes));
+};
+
+export const isProxyPath = (path: string): boolean =>
+  path.startsWith(`${WEBDAV_PROXY_PREFIX}/`);
+
+/**
+ * Proxy path of a WebDAV URL: `http://nas.lan:8080/dav/` becomes
+ * `/webdav-proxy/http/nas.lan:8080/dav/`
+ */
+export function toProxyPath(webdavUrl: string): string {
+  const url = new URL(webdavUrl);
+  const path = `${WEBDAV_PROXY_PREFIX}/${url.protocol.slice(0, -1)}/${url.host}${url.pathname}`;
+  return path.endsWith("/") ? path : `${path}/`;
+}
+
+/**
+ * URL of the server a proxy path forwards to, e.g. to show it to the user.
+ * Other paths are returned as they are.
+ */
+export function fromProxyPath(path: string): string {
+  const match = /^\/webdav-proxy\/(https?)\/([^/]+)(\/.*)?$/.exec(upgradeLegacyProxyPath(path));
+  return match ? `${match[1]}://${match[2]}${match[3] || "/"}` : path;
+}
+
+/**
+ * Rewrite a `/webdav-proxy-<port>/` path from an older profile to the generic route
+ */
+export function upgradeLegacyProxyPath(path: string): string {
+  const match = LEGACY_PROXY_PATH.exec(path);
+  return match ? `${WEBDAV_PROXY_PREFIX}/http/localhost:${match[1]}${match[2] || "/"}` : path;
+}
+
+/**
+ * Whether the browser can reach a server directly. Requests to servers that
+ * don't send CORS headers fail without a response, as do plain http servers
+ * when the app is served over https.
+ */
+export async function canConnectDirectly(url: string, init: RequestInit): Promise<boolean> {
+  try {
+    await fetch(url, init);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The URL itself when `probe` gets through, the proxy route otherwise.
+ * Paths on this origin, e.g. proxy paths, are kept.
+ */
+async function resolveProxiedPath(
+  path: string,
+  probe: (url: URL) => Promise<boolean>
+): Promise<string> {
+  let url: URL;
+  try {
+    url = new URL(path);
+  } catch {
+    return upgradeLegacyProxyPath(path);
+  }
+
+  if (url.origin === window.location.origin || (await probe(url))) return path;
+  return toProxyPath(path);
+}
+
+/**
+ * Path joplin-sync should use for a WebDAV server
+ */
+export const resolveWebdavPath = (
+  webdavPath: string,
+  username: string,
+  password: string
+): Promise<string> =>
+  resolveProxiedPath(webdavPath, (url) =>
+    canConnectDirectly(url.href, {
+      method: "PROPFIND",
+      headers: { Depth: "0", Authorization: `Basic ${encodeBasicAuth(username, password)}` },
+    })
+  );
+
+/**
+ * Path joplin-sync should use for a Joplin Server, checked against its ping endpoint
+ */
+export const resolveJoplinServerPath = (serverPath: string): Promise<string> =>
+  resolveProxiedPath(serverPath, (url) =>
+    canConnectDirectly(new URL("api/ping", url.href.endsWith("/") ? url : `${url.href}/`).href, {})
+  );
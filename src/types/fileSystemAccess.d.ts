@@ -0,0 +1,17 @@
+// Parts of the File System Access API that TypeScript's DOM library doesn't declare yet
+
+type FileSystemPermissionMode = "read" | "readwrite";
+
+interface FileSystemHandle {
+  queryPermission?(descriptor?: { mode?: FileSystemPermissionMode }): Promise<PermissionState>;
+  requestPermission?(descriptor?: { mode?: FileSystemPermissionMode }): Promise<PermissionState>;
+}
+
+interface Window {
+  // Chromium only
+  showDirectoryPicker?(options?: {
+    id?: string;
+    mode?: FileSystemPermissionMode;
+    startIn?: string;
+  }): Promise<FileSystemDirectoryHandle>;
+}
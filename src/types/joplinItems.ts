@@ -0,0 +1,42 @@
+import type { Item } from "joplin-sync";
+
+/**
+ * Joplin item fields that the viewer reads but that are not declared on
+ * joplin-sync's Item type
+ */
+export type JoplinItem = Item & {
+  markup_language?: number;
+  user_created_time?: number;
+  user_updated_time?: number;
+  // To-do notes: completion and due times are unix milliseconds, 0 when unset
+  is_todo?: number;
+  todo_due?: number;
+  todo_completed?: number;
+  // Conflict copies created by a client whose changes collided with the synced version
+  is_conflict?: number;
+  conflict_original_id?: string;
+  // Set when the item was moved to the trash
+  deleted_time?: number;
+  // End-to-end encryption: the item's fields are serialized and encrypted in the cipher text
+  encryption_applied?: number;
+  encryption_cipher_text?: string;
+  // Resource (type 4) metadata
+  mime?: string;
+  filename?: string;
+  file_extension?: string;
+  size?: number;
+  // Set on resources whose file is encrypted too
+  encryption_blob_encrypted?: number;
+  // Bumped whenever the resource's file is replaced
+  blob_updated_time?: number;
+  // Note-tag link (type 6) fields
+  note_id?: string;
+  tag_id?: string;
+  // Revision (type 13) fields
+  item_id?: string;
+  item_type?: number;
+  item_updated_time?: number;
+  title_diff?: string;
+  body_diff?: string;
+  metadata_diff?: string;
+};
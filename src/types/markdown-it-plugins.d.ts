@@ -0,0 +1,17 @@
+// Type declarations for markdown-it plugins that don't ship their own
+
+declare module "markdown-it-mark" {
+  import type { PluginSimple } from "markdown-it";
+  const markdownItMark: PluginSimple;
+  export default markdownItMark;
+}
+
+declare module "markdown-it-task-lists" {
+  import type { PluginWithOptions } from "markdown-it";
+  const markdownItTaskLists: PluginWithOptions<{
+    enabled?: boolean;
+    label?: boolean;
+    labelAfter?: boolean;
+  }>;
+  export default markdownItTaskLists;
+}